@@ -1,14 +1,57 @@
 export {
+    allOf,
     anyOf,
     AnyTy,
+    decimalString,
+    enumOf,
+    epochMillis,
+    epochSeconds,
+    exactNumber,
+    field,
+    InlineSpec,
+    integer,
+    jsonClass,
+    JsonDumper,
     JsonParseError,
     JsonParser,
     JsonSchema,
+    KeySpec,
+    lazy,
+    LazySpec,
+    mapEntries,
+    max,
+    maxLength,
+    min,
+    minLength,
+    multipleOf,
+    ObjectSchema,
+    optional,
+    pattern,
+    pipe,
+    preprocess,
+    refine,
+    relativeURL,
     Schemas,
+    taggedUnion,
+    transform,
     tuple,
+    typedSpec,
 } from "./src/json.ts";
 
+export { TomlParser } from "./src/toml.ts";
+
+export { YamlParser } from "./src/yaml.ts";
+
 export type {
+    FileReader,
     JsonParseResult,
-    TySpec
+    JsonParseResultAsync,
+    JsonParserOptions,
+    JsonValueRaw,
+    ObjectResult,
+    PathSegment,
+    SpecResult,
+    TySpec,
+    TypedSpec,
+    UnknownKeysPolicy,
 } from "./src/json.ts";
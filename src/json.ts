@@ -1,273 +1,544 @@
 import { Either, Maybe } from './deps.ts';
 
 import {
+    daysInMonth,
     flattenNonEmpty,
     groupingStartAndEnd,
+    isNonEmptyArray,
     NestMap,
     NonEmpty,
     NonEmptyNested,
 } from './util.ts';
 
-type GenJsonType<T> = {
-    "array": T[],
-    "boolean": boolean,
-    "null": null,
-    "number": number,
-    "object": { [k: string]: T },
-    "string": string
-}
+import { JsonDialect, readJson, ReadError } from './reader.ts';
 
-/**
- * Possible types for a JSON value.
- *
- * Here, elements of arrays and values of objects are themselves JSON values.
- */
-type JsonType = GenJsonType<JsonValue>;
+import {
+    codeFrame,
+    describePosition,
+    GenJsonValue,
+    JsonArray,
+    JsonBoolean,
+    JsonNull,
+    JsonNumber,
+    jsonNumberText,
+    JsonObject,
+    JsonString,
+    JsonValue,
+    JsonValueRaw,
+    SourceSpan,
+    toJsonValue,
+} from './value.ts';
+
+export type { JsonDialect, JsonValueRaw };
 
-/** Types that are directly JSON compatible. */
-type JsonValueRaw = JsonValueRaw[] | boolean | null | number | { [k: string]: JsonValueRaw } | string;
+class ParseContext {
+    parentContext: Maybe<ParseContext>;
 
-type JsonTypeName = keyof JsonType;
+    private constructor(parent?: ParseContext) {
+        if (parent === undefined) {
+            this.parentContext = Maybe.none();
+        } else {
+            this.parentContext = Maybe.some(parent);
+        }
+    }
 
-class GenJsonValue<T extends JsonTypeName> {
-    private value: JsonType[T];
-    protected ty: T;
+    renderFull(): string {
+        return (this.parentContext.maybe("", c => c.renderFull()) + "\n" + this.renderThis()).trim();
+    }
 
-    constructor(value: JsonType[T], ty: T) {
-        this.value = value;
-        this.ty = ty;
+    /** Render the contexts below 'ancestor' (which should be this context or one of its parents). */
+    renderFrom(ancestor: ParseContext): string {
+        if (this === ancestor) {
+            return "";
+        }
+        return (this.parentContext.maybe("", c => c.renderFrom(ancestor)) + "\n" + this.renderThis()).trim();
     }
 
-    getType(): JsonTypeName {
-        return this.ty;
+    protected renderThis(): string {
+        return "";
     }
 
-    unwrap(): JsonType[T] {
-        return this.value;
+    /** The key or index entered by this context, if any. */
+    protected pathSegment(): Maybe<PathSegment> {
+        return Maybe.none();
     }
 
-    toJsonString(): string {
-        return JSON.stringify(this.unwrapFully());
+    /** The description of the specification and the type of the value being handled by this context, if any. */
+    protected specAndType(): Maybe<[string, string]> {
+        return Maybe.none();
     }
 
-    isArray(): this is GenJsonValue<"array"> {
-        return this.getType() === "array";
+    /** Where the value being handled by this context was read from, if known. */
+    protected valueSpan(): Maybe<SourceSpan> {
+        return Maybe.none();
     }
 
-    isBoolean(): this is GenJsonValue<"boolean"> {
-        return this.getType() === "boolean";
+    /** The value being read by this context, if any. */
+    protected valueRead(): Maybe<JsonValue> {
+        return Maybe.none();
     }
 
-    isNull(): this is GenJsonValue<"null"> {
-        return this.getType() === "null";
+    getParentContext(): Maybe<ParseContext> {
+        return this.parentContext;
     }
 
-    isNumber(): this is GenJsonValue<"number"> {
-        return this.getType() === "number";
+    /** The keys (and indices) that lead from the top-level value to the current value. */
+    getPath(): PathSegment[] {
+        const parentPath = this.parentContext.maybe([], c => c.getPath());
+        return this.pathSegment().maybe(parentPath, seg => [...parentPath, seg]);
     }
 
-    isObject(): this is GenJsonValue<"object"> {
-        return this.getType() === "object";
+    /** Where the innermost value being handled was read from, if known. */
+    getCurrentSpan(): Maybe<SourceSpan> {
+        const here = this.valueSpan();
+        return here.isSome() ? here : Maybe.join(this.parentContext.map(c => c.getCurrentSpan()));
     }
 
-    isString(): this is GenJsonValue<"string"> {
-        return this.getType() === "string";
+    /** The innermost value being read, if any. */
+    getCurrentValue(): Maybe<JsonValue> {
+        const here = this.valueRead();
+        return here.isSome() ? here : Maybe.join(this.parentContext.map(c => c.getCurrentValue()));
     }
 
-    unwrapFully(): JsonValueRaw {
-        if (this.isArray()) {
-            return this.value.map(v => v.unwrapFully());
-        } else if (this.isBoolean()) {
-            return this.value;
-        } else if (this.isNull()) {
-            return this.value;
-        } else if (this.isNumber()) {
-            return this.value;
-        } else if (this.isObject()) {
-            const res: { [k: string]: JsonValueRaw } = {};
-            const v = this.value;
-            for (const k in v) {
-                res[k] = v[k].unwrapFully();
-            }
-            return res;
-        } else if (this.isString()) {
-            return this.value;
-        } else {
-            throw new Error("unreachable");
-        }
+    /** The innermost specification being handled, and the type of the value being handled for it. */
+    getCurrentSpecAndType(): Maybe<[string, string]> {
+        const here = this.specAndType();
+        return here.isSome() ? here : Maybe.join(this.parentContext.map(c => c.getCurrentSpecAndType()));
     }
 
-    static jsonArray(xs: JsonValue[]): JsonArray {
-        return new GenJsonValue(xs, "array");
+    /** True if 'ref' has already been followed to reach the current value. */
+    isFollowing(ref: FollowedRef): boolean {
+        return this.followedRef() === ref || this.parentContext.maybe(false, c => c.isFollowing(ref));
     }
 
-    static jsonBoolean(b: boolean): JsonBoolean {
-        return new GenJsonValue(b, "boolean");
+    /** The reference followed by this context, if any. */
+    protected followedRef(): FollowedRef | undefined {
+        return undefined;
     }
 
-    static jsonNull(): JsonNull {
-        return new GenJsonValue(null, "null");
+    /** The active context when just starting a parse. */
+    static topLevelContext() {
+        return new ParseContext();
     }
 
-    static jsonNumber(n: number): JsonNumber {
-        return new GenJsonValue(n, "number");
+    static readingValueForSpec(parent: ParseContext, schemas: Schemas, spec: TySpec, value: JsonValue): ParseContext {
+        return new ParseContext.ReadingValueForSpec(parent, schemas, spec, value);
     }
 
-    static jsonObject(o: { [k: string]: JsonValue }): JsonObject {
-        return new GenJsonValue(o, "object");
+    static keyEntered(parent: ParseContext, key: string, optional = false): ParseContext {
+        return new ParseContext.KeyEntered(parent, key, optional);
     }
 
-    static jsonString(s: string): JsonString {
-        return new GenJsonValue(s, "string");
+    static keyNameEntered(parent: ParseContext, key: string): ParseContext {
+        return new ParseContext.KeyNameEntered(parent, key);
     }
-}
 
-type JsonValue = GenJsonValue<keyof JsonType>;
+    static indexEntered(parent: ParseContext, index: number): ParseContext {
+        return new ParseContext.IndexEntered(parent, index);
+    }
 
-type JsonArray = GenJsonValue<"array">;
+    static writingValueForSpec(parent: ParseContext, schemas: Schemas, spec: TySpec, value: unknown): ParseContext {
+        return new ParseContext.WritingValueForSpec(parent, schemas, spec, value);
+    }
 
-type JsonBoolean = GenJsonValue<"boolean">;
+    static refFollowed(parent: ParseContext, ref: FollowedRef): ParseContext {
+        return new ParseContext.RefFollowed(parent, ref);
+    }
 
-type JsonObject = GenJsonValue<"object">;
+    private static ReadingValueForSpec = class extends ParseContext {
+        private schemas: Schemas;
+        private spec: TySpec;
+        private value: JsonValue;
 
-type JsonNull = GenJsonValue<"null">;
+        constructor(parent: ParseContext, schemas: Schemas, spec: TySpec, value: JsonValue) {
+            super(parent);
+            this.spec = spec;
+            this.schemas = schemas;
+            this.value = value;
+        }
 
-type JsonNumber = GenJsonValue<"number">;
+        renderThis(): string {
+            return `When trying to read a value for specification: ${this.schemas.getDescription(this.spec)}\nI saw: ${this.value.toJsonString()}`;
+        }
 
-type JsonString = GenJsonValue<"string">;
+        protected specAndType(): Maybe<[string, string]> {
+            return Maybe.some([this.schemas.getDescription(this.spec), this.value.getType()]);
+        }
 
-function toJsonValue(x: any): Either<Error, JsonValue> {
-    const pure = Either.pure;
-    const fail = (msg: string) => Either.fail<Error, JsonValue>(new Error(msg));
-    if (typeof x === 'string') {
-        return pure(GenJsonValue.jsonString(x));
-    } else if (typeof x === 'boolean') {
-        return pure(GenJsonValue.jsonBoolean(x));
-    } else if (typeof x === 'number') {
-        return pure(GenJsonValue.jsonNumber(x));
-    } else if (x === null) {
-        return pure(GenJsonValue.jsonNull());
-    } else if (x instanceof Array) {
-        const res = [];
-        for (let i = 0; i < x.length; i++) {
-            const ijson = toJsonValue(x[i]);
-            if (ijson.isLeft()) {
-                return ijson.propLeft();
-            }
-            res[i] = ijson.unwrapRight();
+        protected valueSpan(): Maybe<SourceSpan> {
+            return this.value.getSpan();
         }
-        return pure(GenJsonValue.jsonArray(res));
-    } else if (typeof x === 'function') {
-        return fail('functions not supported by JSON');
-    } else if (typeof x === 'object') {
-        const res: { [k: string]: JsonValue } = {};
-        for (const k in x) {
-            const kjson = toJsonValue(x[k]);
-            if (kjson.isLeft()) {
-                return kjson.propLeft();
-            }
-            res[k] = kjson.unwrapRight();
+
+        protected valueRead(): Maybe<JsonValue> {
+            return Maybe.some(this.value);
         }
-        return pure(GenJsonValue.jsonObject(res));
     }
-    return fail(`could not load JSON value: ${x}`);
-}
 
-function parse(text: string): Either<Error, JsonValue> {
-    return toJsonValue(JSON.parse(text));
-}
+    private static WritingValueForSpec = class extends ParseContext {
+        private schemas: Schemas;
+        private spec: TySpec;
+        private value: unknown;
 
-class ParseContext {
-    parentContext: Maybe<ParseContext>;
+        constructor(parent: ParseContext, schemas: Schemas, spec: TySpec, value: unknown) {
+            super(parent);
+            this.spec = spec;
+            this.schemas = schemas;
+            this.value = value;
+        }
 
-    private constructor(parent?: ParseContext) {
-        if (parent === undefined) {
-            this.parentContext = Maybe.none();
-        } else {
-            this.parentContext = Maybe.some(parent);
+        renderThis(): string {
+            return `When trying to write a value for specification: ${this.schemas.getDescription(this.spec)}\nI saw: ${renderJsValue(this.value)}`;
         }
-    }
 
-    renderFull(): string {
-        return (this.parentContext.maybe("", c => c.renderFull()) + "\n" + this.renderThis()).trim();
+        protected specAndType(): Maybe<[string, string]> {
+            return Maybe.some([this.schemas.getDescription(this.spec), jsTypeDescription(this.value)]);
+        }
     }
 
-    protected renderThis(): string {
-        return "";
-    }
+    private static KeyEntered = class extends ParseContext {
+        private key: string;
+        private optional: boolean;
 
-    getParentContext(): Maybe<ParseContext> {
-        return this.parentContext;
-    }
+        constructor(parent: ParseContext, key: string, optional: boolean) {
+            super(parent);
+            this.key = key;
+            this.optional = optional;
+        }
 
-    /** The active context when just starting a parse. */
-    static topLevelContext() {
-        return new ParseContext();
-    }
+        renderThis(): string {
+            return "In key: " + JSON.stringify(this.key) + (this.optional ? " (optional)" : "");
+        }
 
-    static readingValueForSpec(parent: ParseContext, schemas: Schemas, spec: TySpec, value: JsonValue): ParseContext {
-        return new ParseContext.ReadingValueForSpec(parent, schemas, spec, value);
+        protected pathSegment(): Maybe<PathSegment> {
+            return Maybe.some(this.key);
+        }
     }
 
-    static keyEntered(parent: ParseContext, key: string): ParseContext {
-        return new ParseContext.KeyEntered(parent, key);
+    private static KeyNameEntered = class extends ParseContext {
+        private key: string;
+
+        constructor(parent: ParseContext, key: string) {
+            super(parent);
+            this.key = key;
+        }
+
+        renderThis(): string {
+            return "In the name of key: " + JSON.stringify(this.key);
+        }
+
+        protected pathSegment(): Maybe<PathSegment> {
+            return Maybe.some(this.key);
+        }
     }
 
-    private static ReadingValueForSpec = class extends ParseContext {
-        private schemas: Schemas;
-        private spec: TySpec;
-        private value: JsonValue;
+    private static IndexEntered = class extends ParseContext {
+        private index: number;
 
-        constructor(parent: ParseContext, schemas: Schemas, spec: TySpec, value: JsonValue) {
+        constructor(parent: ParseContext, index: number) {
             super(parent);
-            this.spec = spec;
-            this.schemas = schemas;
-            this.value = value;
+            this.index = index;
         }
 
         renderThis(): string {
-            return `When trying to read a value for specification: ${this.schemas.getDescription(this.spec)}\nI saw: ${this.value.toJsonString()}`;
+            return "At index " + this.index;
+        }
+
+        protected pathSegment(): Maybe<PathSegment> {
+            return Maybe.some(this.index);
         }
     }
 
-    private static KeyEntered = class extends ParseContext {
-        private key: string;
+    private static RefFollowed = class extends ParseContext {
+        private ref: FollowedRef;
 
-        constructor(parent: ParseContext, key: string) {
+        constructor(parent: ParseContext, ref: FollowedRef) {
             super(parent);
-            this.key = key;
+            this.ref = ref;
         }
 
         renderThis(): string {
-            return "In key: " + JSON.stringify(this.key);
+            return `Following ${this.ref.directive} in ${this.ref.from} to ${this.ref.target}`;
+        }
+
+        protected followedRef(): FollowedRef | undefined {
+            return this.ref;
         }
     }
 }
 
+/** An object key or array index. */
+export type PathSegment = string | number;
+
+/** Render a path as a JSON Pointer (RFC 6901). */
+function toJsonPointer(path: PathSegment[]): string {
+    return path.map(seg => '/' + String(seg).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
 export class JsonParseError extends Error {
     protected context: ParseContext;
+    private explanation: string;
+    private span: Maybe<SourceSpan>;
+
+    /** The keys (and indices) leading to the value that caused the error. */
+    readonly path: PathSegment[];
+
+    /** JSON Pointer (RFC 6901) to the value that caused the error. */
+    readonly pointer: string;
+
+    /** Description of the specification that the value was expected to match, if any. */
+    readonly expected?: string;
+
+    /** The type of the value that caused the error, if any. */
+    readonly actualType?: string;
+
+    /** The line of the text at which the value that caused the error starts, if known. */
+    readonly line?: number;
 
-    constructor(context: ParseContext, message: string) {
-        super(`${context.renderFull()}\n${message}`);
+    /** The column of the text at which the value that caused the error starts, if known. */
+    readonly column?: number;
+
+    constructor(context: ParseContext, message: string, span: Maybe<SourceSpan> = context.getCurrentSpan()) {
+        const renderedContext = context.renderFull();
+        const location = span.maybe("", sp => `\nAt ${describePosition(sp.source, sp.start)}:\n${codeFrame(sp.source, sp.start)}`);
+        super((renderedContext === "" ? message : `${renderedContext}\n${message}`) + location);
         this.context = context;
+        this.explanation = message;
+        this.span = span;
+        this.line = span.maybe(undefined, sp => sp.start.line);
+        this.column = span.maybe(undefined, sp => sp.start.column);
+        this.path = context.getPath();
+        this.pointer = toJsonPointer(this.path);
+        const specAndType = context.getCurrentSpecAndType();
+        this.expected = specAndType.maybe(undefined, x => x[0]);
+        this.actualType = specAndType.maybe(undefined, x => x[1]);
+    }
+
+    /**
+     * Render the error as seen from 'context' (one of the contexts
+     * the error happened in), for including in another error. The
+     * location is only given if it differs from that of 'context'.
+     */
+    renderFrom(context: ParseContext): string {
+        const renderedContext = this.context.renderFrom(context);
+        const contextStart = context.getCurrentSpan().map(sp => sp.start);
+        const location = this.span.maybe("", sp => contextStart.maybe(false, st => st.offset === sp.start.offset)
+            ? "" : `\nAt ${describePosition(sp.source, sp.start)}`);
+        return (renderedContext === "" ? this.explanation : `${renderedContext}\n${this.explanation}`) + location;
     }
 }
 
 export type JsonParseResult<T> = Either<JsonParseError, T>;
 
+/**
+ * What a {@link JsonSchema} handler gives: a result, or a promise of
+ * one if the handler reads values asynchronously (which is only
+ * allowed when reading with {@link JsonParser.parseAsAsync}).
+ */
+export type JsonParseResultAsync<T> = JsonParseResult<T> | Promise<JsonParseResult<T>>;
+
+/** State of a parse by {@link JsonParser.parseAsAsync}. */
+type AsyncParseState = {
+    /** Results of the asynchronous handlers that have finished, by the value and specification they read. */
+    results: Map<JsonValue, [TySpec, JsonParseResult<any>][]>,
+    /** Asynchronous handlers that have been started, but not finished. */
+    pending: Promise<void>[],
+};
+
+function indent(s: string, prefix: string): string {
+    return s.split('\n').map(l => l === '' ? l : prefix + l).join('\n');
+}
+
+/**
+ * How far an attempt to match a value got before failing, for
+ * comparing lexicographically: unknown specifications (which are
+ * mistakes in the program rather than the value) count for least,
+ * then errors further into the text count for more, then errors for
+ * deeper values, then any error other than the value having the
+ * wrong type.
+ */
+function matchProgress(err: JsonParseError): number[] {
+    if (err instanceof JsonParser.AggregateParseError || err instanceof JsonParser.NoMatchingAlternativeError) {
+        return err.errors.map(matchProgress).reduce((best, p) => compareProgress(p, best) > 0 ? p : best);
+    }
+    const isUnknownSpec = err instanceof JsonParser.UnknownSpecError || err instanceof JsonParser.UnknownDumpSpecError;
+    return [isUnknownSpec ? 0 : 1, err.line ?? 0, err.column ?? 0, err.path.length, err instanceof JsonParser.JsonTypeError ? 0 : 1];
+}
+
+function compareProgress(p1: number[], p2: number[]): number {
+    const i = p1.findIndex((x, i) => x !== p2[i]);
+    return i === -1 ? 0 : p1[i] - p2[i];
+}
+
+/** The index of the error that got strictly furthest, if there is one. */
+function closestAlternative(errors: JsonParseError[]): number | undefined {
+    const progress = errors.map(matchProgress);
+    const best = progress.reduce((best, p) => compareProgress(p, best) > 0 ? p : best);
+    const closest = progress.filter(p => compareProgress(p, best) === 0);
+    return closest.length === 1 ? progress.indexOf(closest[0]) : undefined;
+}
+
 function determinerFor(s: string): string {
     return s.match('^[aoeiu]') ? 'an' : 'a';
 }
 
+/** Render an arbitrary value for use in error messages. */
+function renderJsValue(x: unknown): string {
+    if (x instanceof Map || x instanceof Set) {
+        return `${x.constructor.name}(${x.size})`;
+    }
+    try {
+        const res = JSON.stringify(x);
+        return res === undefined ? String(x) : res;
+    } catch (_) {
+        return String(x);
+    }
+}
+
+/** Describe the type of an arbitrary value in the same terms as JSON types, where possible. */
+function jsTypeDescription(x: unknown): string {
+    if (x === null) {
+        return 'null';
+    } else if (Array.isArray(x)) {
+        return 'array';
+    } else if (typeof x === 'object') {
+        const proto = Object.getPrototypeOf(x);
+        return proto === null || proto === Object.prototype ? 'object' : proto.constructor.name;
+    }
+    return typeof x;
+}
+
+/** True if the value is a plain object (i.e., not an instance of some other class). */
+function isPlainObject(x: unknown): x is StringKeyed<unknown> {
+    if (typeof x !== 'object' || x === null) {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(x);
+    return proto === null || proto === Object.prototype;
+}
+
+/** True if the value can be written as JSON without any conversion. */
+function isJsonValueRaw(x: unknown): x is JsonValueRaw {
+    if (x === null || typeof x === 'boolean' || typeof x === 'string') {
+        return true;
+    } else if (typeof x === 'number') {
+        return isFinite(x);
+    } else if (Array.isArray(x)) {
+        return x.every(isJsonValueRaw);
+    } else if (isPlainObject(x)) {
+        return Object.values(x).every(isJsonValueRaw);
+    }
+    return false;
+}
+
+/**
+ * What to do with object keys that are not accepted by a specification.
+ *
+ * - 'reject' fails with an {@link JsonParser.UnknownKeysError}
+ * - 'strip' ignores the keys
+ * - 'passthrough' keeps the keys (and their values, as read by
+ *   {@link AnyTy}) on the result
+ * - '{ rest: k }' collects the keys and their values (as read by
+ *   {@link AnyTy}) into a Map stored in the result under the key 'k'
+ */
+export type UnknownKeysPolicy = 'reject' | 'strip' | 'passthrough' | { rest: string };
+
+export interface JsonParserOptions {
+    /**
+     * Policy for unknown object keys, used by specifications that
+     * don't specify their own. Defaults to 'reject'. Reading an
+     * object whose specification has a key of the same name as the
+     * key given by '{ rest: k }' fails with a {@link
+     * JsonParser.RestKeyClashError}.
+     */
+    unknownKeys?: UnknownKeysPolicy;
+    /** The flavour of JSON to read. Defaults to 'json'. */
+    dialect?: JsonDialect;
+    /**
+     * How to read files for {@link JsonParser.parseFileAsync}.
+     * Defaults to reading them from the local file system.
+     */
+    readFile?: FileReader;
+}
+
+/** Reads the text of the file at the given path, for {@link JsonParser.parseFileAsync}. */
+export type FileReader = (path: string) => Promise<string>;
+
 export class JsonParser {
 
     private schemas: Schemas;
     private context: Maybe<ParseContext>;
-
-    constructor(schemas?: Schemas, noDefault?: boolean) {
+    private unknownKeysPolicy: UnknownKeysPolicy;
+    private dialect: JsonDialect;
+    private collectingErrors: boolean;
+    private otherKnownKeys: Map<JsonValue, Set<string>>;
+    private asyncState: Maybe<AsyncParseState>;
+    /** True if an asynchronous handler was started by this parser during the current pass of parseAsAsync. */
+    private startedAsync: boolean;
+    /** The values read for the names of the keys of each object (see keyNameValue). */
+    private keyNameValues: WeakMap<JsonValue, Map<string, JsonValue>>;
+    private readFile: FileReader;
+    private followedRefs: Map<JsonValue, FollowedRef[]>;
+
+    constructor(schemas?: Schemas, noDefault?: boolean, opts: JsonParserOptions = {}) {
         schemas = Schemas.mergeSchemas(noDefault ? Schemas.emptySchemas() : defaultSchema(), schemas !== undefined ? schemas : Schemas.emptySchemas());
         this.schemas = schemas;
         this.context = Maybe.none();
+        this.unknownKeysPolicy = opts.unknownKeys !== undefined ? opts.unknownKeys : 'reject';
+        this.dialect = opts.dialect !== undefined ? opts.dialect : 'json';
+        this.collectingErrors = false;
+        this.otherKnownKeys = new Map();
+        this.asyncState = Maybe.none();
+        this.startedAsync = false;
+        this.keyNameValues = new WeakMap();
+        this.readFile = opts.readFile !== undefined ? opts.readFile : path => Deno.readTextFile(path);
+        this.followedRefs = new Map();
+    }
+
+    /**
+     * True if the parser should report as many errors as it can,
+     * rather than stopping at the first error.
+     *
+     * Schemas that load multiple values should check this when a
+     * value fails to load, and if it is true, keep loading the
+     * remaining values and combine the errors with {@link failWithErrors}.
+     */
+    isCollectingErrors(): boolean {
+        return this.collectingErrors;
+    }
+
+    /** The policy for unknown object keys to use where a specification doesn't give one. */
+    getUnknownKeysPolicy(): UnknownKeysPolicy {
+        return this.unknownKeysPolicy;
+    }
+
+    /** The object keys read by the schema for the given specification (see {@link JsonSchema.getKnownKeys}). */
+    getKnownKeys(spec: TySpec): string[] {
+        return this.schemas.getSchemaForSpec(spec).maybe([], schema => schema.getKnownKeys(this));
+    }
+
+    /**
+     * True if the key of 'json' is read by another specification
+     * that 'json' is being read with at the same time (e.g., another
+     * member of an {@link allOf}), and so should not be treated as
+     * unknown.
+     */
+    isKeyKnownElsewhere(json: JsonObject, k: string): boolean {
+        return this.otherKnownKeys.get(json)?.has(k) ?? false;
+    }
+
+    /** Run 'f' with the keys 'ks' of 'json' treated as known elsewhere (see {@link isKeyKnownElsewhere}). */
+    withKeysKnownElsewhere<T>(json: JsonObject, ks: string[], f: () => T): T {
+        const previous = this.otherKnownKeys.get(json);
+        this.otherKnownKeys.set(json, new Set([...previous ?? [], ...ks]));
+        try {
+            return f();
+        } finally {
+            if (previous === undefined) {
+                this.otherKnownKeys.delete(json);
+            } else {
+                this.otherKnownKeys.set(json, previous);
+            }
+        }
     }
 
     private updateContext(f: (c: ParseContext) => ParseContext) {
@@ -278,8 +549,20 @@ export class JsonParser {
         this.updateContext(c => ParseContext.readingValueForSpec(c, this.schemas, spec, value));
     }
 
-    private contextEnterKey(k: string) {
-        this.updateContext(c => ParseContext.keyEntered(c, k));
+    private tryingToWriteValueForSpec(spec: TySpec, value: unknown) {
+        this.updateContext(c => ParseContext.writingValueForSpec(c, this.schemas, spec, value));
+    }
+
+    private contextEnterKey(k: string, optional = false) {
+        this.updateContext(c => ParseContext.keyEntered(c, k, optional));
+    }
+
+    private contextEnterKeyName(k: string) {
+        this.updateContext(c => ParseContext.keyNameEntered(c, k));
+    }
+
+    private contextEnterIndex(i: number) {
+        this.updateContext(c => ParseContext.indexEntered(c, i));
     }
 
     _getDescriptionForSpec(spec: TySpec): string {
@@ -293,25 +576,171 @@ export class JsonParser {
     /**
      * Parse the JSON text as a member of the given type. Intended to
      * be used when parsing a value that belongs to an object key.
+     *
+     * 'optional' should be true if the key need not have been present.
      */
-    loadKeyAs(k: string, jv: JsonValue, spec: TySpec): JsonParseResult<any> {
-        this.contextEnterKey(k);
+    loadKeyAs(k: string, jv: JsonValue, spec: TySpec, optional = false): JsonParseResult<any> {
+        this.contextEnterKey(k, optional);
+        const res = this.loadAs(jv, spec);
+        this.contextPop();
+        return res;
+    }
+
+    /**
+     * Parse the name of an object key as a member of the given type.
+     *
+     * The name is read as a string, unless the type does not accept
+     * it and the name is written as a number or boolean (e.g., "1" or
+     * "true"), in which case it is read as that.
+     */
+    loadKeyNameAs(k: string, spec: TySpec): JsonParseResult<any> {
+        this.contextEnterKeyName(k);
+        let res = this.loadAs(this.keyNameValue(k, 'string'), spec);
+        if (res.isLeft()) {
+            if (decimalPattern.test(k)) {
+                res = this.loadAs(this.keyNameValue(k, 'number'), spec);
+            } else if (k === 'true' || k === 'false') {
+                res = this.loadAs(this.keyNameValue(k, 'boolean'), spec);
+            }
+        }
+        this.contextPop();
+        return res;
+    }
+
+    /**
+     * The value to read the name 'k' of a key of the object being
+     * read as. The same value is given each time the object is read,
+     * so that {@link parseAsAsync} can find the results of
+     * asynchronous handlers for it.
+     */
+    private keyNameValue(k: string, ty: 'string' | 'number' | 'boolean'): JsonValue {
+        const make = () => ty === 'string' ? GenJsonValue.jsonString(k)
+            : ty === 'number' ? GenJsonValue.jsonNumber(Number(k), undefined, jsonNumberText(k))
+            : GenJsonValue.jsonBoolean(k === 'true');
+        return this.checkParsingOrFail().getCurrentValue().maybef(make, obj => {
+            const names = this.keyNameValues.get(obj) ?? new Map<string, JsonValue>();
+            this.keyNameValues.set(obj, names);
+            const res = names.get(`${ty}:${k}`) ?? make();
+            names.set(`${ty}:${k}`, res);
+            return res;
+        });
+    }
+
+    /**
+     * Parse the JSON text as a member of the given type. Intended to
+     * be used when parsing a value that belongs to an array index.
+     */
+    loadIndexAs(i: number, jv: JsonValue, spec: TySpec): JsonParseResult<any> {
+        this.contextEnterIndex(i);
         const res = this.loadAs(jv, spec);
         this.contextPop();
         return res;
     }
 
     /** Parse the JSON text as a member of the given type. */
-    loadAs(jv: JsonValue, cls: TySpec): JsonParseResult<any> {
+    loadAs<const S extends TySpec>(jv: JsonValue, cls: S): JsonParseResult<SpecResult<S>> {
+        // references followed to reach the value (see parseFileAsync), unless already being followed
+        const refs = this.followedRefs.get(jv)?.filter(ref => !this.checkParsingOrFail().isFollowing(ref)) ?? [];
+        refs.forEach(ref => this.updateContext(c => ParseContext.refFollowed(c, ref)));
         this.tryingToLoadValueForSpec(cls, jv);
         const maybeSchema = this.schemas.getSchemaForSpec(cls);
-        if (maybeSchema.isSome()) {
-            const schema = maybeSchema.unwrap();
-            const res = schema.on(this, jv);
-            this.contextPop();
+        const res = maybeSchema.isSome()
+            ? this.asyncState.maybef(() => this.onSync(maybeSchema.unwrap(), jv, cls), state => this.onAsync(state, maybeSchema.unwrap(), jv, cls))
+            : this.failWithUnknownSpec(cls);
+        this.contextPop();
+        refs.forEach(() => this.contextPop());
+        return res;
+    }
+
+    private onSync(schema: JsonSchema<any>, jv: JsonValue, cls: TySpec): JsonParseResult<any> {
+        const res = schema.on(this, jv);
+        if (res instanceof Promise) {
+            res.catch(() => {});
+            throw new TypeError(`The specification ${this.schemas.getDescription(cls)} is read asynchronously, so must be read with parseAsAsync`);
+        }
+        return res;
+    }
+
+    /**
+     * Read the value with the schema during a parse by {@link
+     * parseAsAsync}. The handler is given a copy of the parser, so
+     * that it keeps the current context if it finishes later. If it
+     * does, its result is recorded for the next pass, unless it read
+     * values whose asynchronous handlers had not finished (in which
+     * case it is run again on the next pass, once they have).
+     */
+    private onAsync(state: AsyncParseState, schema: JsonSchema<any>, jv: JsonValue, cls: TySpec): JsonParseResult<any> {
+        const finished = state.results.get(jv)?.find(([spec]) => sameTySpec(spec, cls));
+        if (finished !== undefined) {
+            return finished[1];
+        }
+        const fork: JsonParser = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+        fork.startedAsync = false;
+        const res = schema.on(fork, jv);
+        if (!(res instanceof Promise)) {
+            this.startedAsync = this.startedAsync || fork.startedAsync;
             return res;
         }
-        return this.failWithUnknownSpec(cls);
+        this.startedAsync = true;
+        state.pending.push(res.then(r => {
+            if (!fork.startedAsync) {
+                state.results.set(jv, [...state.results.get(jv) ?? [], [cls, r]]);
+            }
+        }));
+        return JsonParser.failParse(new PendingParseError(this.checkParsingOrFail()));
+    }
+
+    /**
+     * Write the value as JSON according to the given type. Intended
+     * to be used when writing a value that belongs to an object key.
+     */
+    dumpKeyAs(k: string, value: unknown, spec: TySpec): JsonParseResult<JsonValueRaw> {
+        this.contextEnterKey(k);
+        const res = this.dumpAs(value, spec);
+        this.contextPop();
+        return res;
+    }
+
+    /**
+     * Write the value as the name of an object key according to the
+     * given type. Numbers and booleans are written as their text.
+     */
+    dumpKeyNameAs(key: unknown, spec: TySpec): JsonParseResult<string> {
+        this.contextEnterKeyName(typeof key === 'string' ? key : renderJsValue(key));
+        const dumped = this.dumpAs(key, spec);
+        const res = dumped.isLeft() ? dumped.propLeft<string>()
+            : this.keyNameFromDumped(dumped.unwrapRight());
+        this.contextPop();
+        return res;
+    }
+
+    private keyNameFromDumped(x: JsonValueRaw): JsonParseResult<string> {
+        if (typeof x === 'string') {
+            return JsonParser.parseOk(x);
+        } else if (typeof x === 'number' || typeof x === 'boolean') {
+            return JsonParser.parseOk(String(x));
+        }
+        return this.failWithTypeError(`key written as ${jsTypeDescription(x)}`);
+    }
+
+    /**
+     * Write the value as JSON according to the given type. Intended
+     * to be used when writing a value that belongs to an array index.
+     */
+    dumpIndexAs(i: number, value: unknown, spec: TySpec): JsonParseResult<JsonValueRaw> {
+        this.contextEnterIndex(i);
+        const res = this.dumpAs(value, spec);
+        this.contextPop();
+        return res;
+    }
+
+    /** Write the value as JSON according to the given type. */
+    dumpAs(value: unknown, spec: TySpec): JsonParseResult<JsonValueRaw> {
+        this.tryingToWriteValueForSpec(spec, value);
+        const maybeDumper = this.schemas.getDumperForSpec(spec);
+        const res = maybeDumper.isSome() ? maybeDumper.unwrap().dump(this, value) : this.failWithUnknownDumpSpec<JsonValueRaw>(spec);
+        this.contextPop();
+        return res;
     }
 
     checkParsingOrFail(): ParseContext | never {
@@ -328,16 +757,67 @@ export class JsonParser {
         return JsonParser.failParse(new JsonParser.JsonTypeError(context, tyDesc));
     }
 
+    failWithConstraint<T>(constraint: string): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.ConstraintError(context, constraint));
+    }
+
+    failWithTransformError<T>(reason: string, cause?: unknown): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.TransformError(context, reason, cause));
+    }
+
+    /**
+     * Run 'f', failing with a {@link JsonParser.TransformError} if it
+     * throws.
+     */
+    tryTransform<T>(f: () => T): JsonParseResult<T> {
+        try {
+            return JsonParser.parseOk(f());
+        } catch (e) {
+            return this.failWithTransformError(e instanceof Error ? e.message : String(e), e);
+        }
+    }
+
+    failWithNoMatchingAlternative<T>(errors: JsonParseError[]): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.NoMatchingAlternativeError(context, errors));
+    }
+
+    failWithUnexpectedValue<T>(allowed: Literal[]): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.UnexpectedValueError(context, allowed));
+    }
+
     failWithUnknownKeys<T>(unknownKeys: string[]): JsonParseResult<T> {
         const context = this.checkParsingOrFail();
         return JsonParser.failParse(new JsonParser.UnknownKeysError(context, unknownKeys));
     }
 
+    /** Fail because the parser's '{ rest: k }' policy gives a key already specified by 'description'. */
+    failWithRestKeyClash<T>(key: string, description: string): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.RestKeyClashError(context, key, description));
+    }
+
     failWithUnknownSpec<T>(spec: TySpec): JsonParseResult<T> {
         const context = this.checkParsingOrFail();
         return JsonParser.failParse(new JsonParser.UnknownSpecError(context, spec));
     }
 
+    /** Fail with all of the given errors. */
+    failWithErrors<T>(errors: NonEmpty<JsonParseError>): JsonParseResult<T> {
+        if (errors.length === 1) {
+            return JsonParser.failParse(errors[0]);
+        }
+        return JsonParser.failParse(new JsonParser.AggregateParseError(errors));
+    }
+
+    failWithUnknownDumpSpec<T>(spec: TySpec): JsonParseResult<T> {
+        const context = this.checkParsingOrFail();
+        return JsonParser.failParse(new JsonParser.UnknownDumpSpecError(context, spec));
+    }
+
     private initialiseForParsing() {
         this.context = Maybe.some(ParseContext.topLevelContext());
     }
@@ -346,7 +826,7 @@ export class JsonParser {
         this.context = Maybe.none();
     }
 
-    private withSetupCleanUp<T>(f: () => T): T {
+    protected withSetupCleanUp<T>(f: () => T): T {
         this.initialiseForParsing();
         let res;
         try {
@@ -354,26 +834,154 @@ export class JsonParser {
         } catch (e) {
             throw e;
         } finally {
-            this.cleanupAfterParsing();
+            this.cleanupAfterParsing();
+        }
+        return res;
+    }
+
+    /**
+     * Read the text into a JSON value, without interpreting it
+     * according to any specification. 'name' is the name of the file
+     * (or other source) it came from, if any, for locating errors.
+     */
+    protected readText(text: string, name?: string): JsonParseResult<JsonValue> {
+        return readJson(text, { name, dialect: this.dialect }).mapBoth(err => new JsonParser.JsonSyntaxError(err), v => v);
+    }
+
+    /**
+     * Parse the JSON text as a member of the given type.
+     *
+     * Similar to {@link parseAs}, but throw any resulting exception immediately.
+     */
+    parseAsOrThrow<const S extends TySpec>(text: string, cls: S): SpecResult<S> {
+        return this.parseAs(text, cls).either(err => { throw err }, r => r);
+    }
+
+    /**
+     * Parse the JSON text as a member of the given type.
+     *
+     * The type of the result is inferred from the specification, see
+     * {@link SpecResult}.
+     */
+    parseAs<const S extends TySpec>(text: string, cls: S): Either<Error, SpecResult<S>> {
+        return this.withSetupCleanUp(() => {
+            return this.readText(text).mapCollecting(v => this.loadAs(v, cls));
+        });
+    }
+
+    /**
+     * Parse the JSON text as a member of the given type, allowing
+     * schema handlers to read values asynchronously by returning a
+     * promise (see {@link JsonParseResultAsync}).
+     *
+     * The value is read once to start every asynchronous handler it
+     * needs, which then run at the same time, and read again using
+     * their results once they have all finished (repeating if these
+     * lead to more asynchronous handlers). Handlers that are not
+     * asynchronous may therefore be run more than once.
+     */
+    async parseAsAsync<const S extends TySpec>(text: string, cls: S): Promise<Either<Error, SpecResult<S>>> {
+        const read = this.readText(text);
+        if (read.isLeft()) {
+            return read.propLeft();
+        }
+        return this.loadAsAsync(read.unwrapRight(), cls, new Map());
+    }
+
+    /**
+     * Read the file at 'path' and parse it as a member of the given
+     * type, as with {@link parseAsAsync}. Files are read with the
+     * {@link JsonParserOptions.readFile} option.
+     *
+     * Before parsing, each object of the form {"$ref": "other.json#/a/b"}
+     * is replaced by the value that the JSON Pointer (here, "/a/b")
+     * points to in the file (the file containing the object if none
+     * is given). An object with an "$include" key, naming a file (or
+     * an array of them) in the same way, gets the keys of the objects
+     * found there, unless it has a key of the same name itself. Paths
+     * are relative to the file they are written in.
+     *
+     * Errors in values reached through references list the references
+     * that were followed, and references that lead back to themselves
+     * fail with an {@link JsonParser.RefError}.
+     */
+    async parseFileAsync<const S extends TySpec>(path: string, cls: S): Promise<Either<Error, SpecResult<S>>> {
+        const resolver = new RefResolver(this.readFile, (text, name) => this.readText(text, name));
+        const read = await resolver.resolveFile(path);
+        if (read.isLeft()) {
+            return read.propLeft();
+        }
+        return this.loadAsAsync(read.unwrapRight(), cls, resolver.followed);
+    }
+
+    /**
+     * Read the value as a member of the given type for {@link
+     * parseAsAsync}, where 'followed' gives the references followed
+     * to reach values in it (see {@link parseFileAsync}).
+     */
+    private async loadAsAsync<const S extends TySpec>(json: JsonValue, cls: S, followed: Map<JsonValue, FollowedRef[]>): Promise<Either<Error, SpecResult<S>>> {
+        const state: AsyncParseState = { results: new Map(), pending: [] };
+        const collecting = this.collectingErrors;
+        let starting = true;
+        for (;;) {
+            // while starting handlers, read as much as possible, so that they all start at once
+            this.asyncState = Maybe.some(state);
+            this.collectingErrors = collecting || starting;
+            this.followedRefs = followed;
+            let res;
+            try {
+                res = this.withSetupCleanUp(() => this.loadAs(json, cls));
+            } finally {
+                this.asyncState = Maybe.none();
+                this.collectingErrors = collecting;
+                this.followedRefs = new Map();
+            }
+            if (state.pending.length > 0) {
+                const pending = state.pending;
+                state.pending = [];
+                await Promise.all(pending);
+                starting = true;
+            } else if (starting && !collecting) {
+                starting = false;
+            } else {
+                return res;
+            }
+        }
+    }
+
+    /**
+     * Parse the JSON text as a member of the given type, reporting
+     * every error that can be found rather than only the first.
+     *
+     * Any failure is reported as an {@link JsonParser.AggregateParseError}.
+     */
+    parseAllErrors<const S extends TySpec>(text: string, cls: S): Either<Error, SpecResult<S>> {
+        this.collectingErrors = true;
+        try {
+            return this.parseAs(text, cls).mapBoth(err => {
+                if (err instanceof JsonParseError && !(err instanceof JsonParser.AggregateParseError)) {
+                    return new JsonParser.AggregateParseError([err]);
+                }
+                return err;
+            }, r => r);
+        } finally {
+            this.collectingErrors = false;
         }
-        return res;
     }
 
     /**
-     * Parse the JSON text as a member of the given type.
+     * Write the value as JSON text according to the given type.
      *
-     * Similar to {@link parseAs}, but throw any resulting exception immediately.
+     * Similar to {@link stringifyAs}, but throw any resulting exception immediately.
      */
-    parseAsOrThrow(text: string, cls: TySpec): any {
-        return this.withSetupCleanUp(() => {
-            return parse(text).mapCollecting(v => this.loadAs(v, cls)).either(err => { throw err }, r => r);
-        });
+    stringifyAsOrThrow(value: unknown, cls: TySpec, space?: string | number): string {
+        return this.stringifyAs(value, cls, space).either(err => { throw err }, r => r);
     }
 
-    /** Parse the JSON text as a member of the given type. */
-    parseAs(text: string, cls: TySpec): Either<Error, any> {
+    /** Write the value as JSON text according to the given type. */
+    stringifyAs(value: unknown, cls: TySpec, space?: string | number): Either<Error, string> {
         return this.withSetupCleanUp(() => {
-            return parse(text).mapCollecting(v => this.loadAs(v, cls));
+            return this.dumpAs(value, cls).map(r => JSON.stringify(r, undefined, space));
         });
     }
 
@@ -385,43 +993,386 @@ export class JsonParser {
         return Either.pure(x);
     }
 
+    /** The text could not be read as JSON. */
+    static JsonSyntaxError = class extends JsonParseError {
+        readonly reason: string;
+
+        constructor(err: ReadError) {
+            super(ParseContext.topLevelContext(), `Syntax error: ${err.reason}`, Maybe.some({ source: err.source, start: err.position, end: err.position }));
+            this.reason = err.reason;
+        }
+    }
+
     static JsonTypeError = class extends JsonParseError {
+        /** Description of the type of the value, which may be more specific than its JSON type. */
+        readonly actualDescription: string;
+
         constructor(context: ParseContext, actualTyDesc: string) {
             super(context, `But this is ${determinerFor(actualTyDesc)} ${actualTyDesc}`);
+            this.actualDescription = actualTyDesc;
+        }
+    }
+
+    /** The value has the right type, but does not satisfy a constraint such as {@link min}. */
+    static ConstraintError = class extends JsonParseError {
+        /** Description of the constraint that was not satisfied. */
+        readonly constraint: string;
+
+        constructor(context: ParseContext, constraint: string) {
+            super(context, `But this does not satisfy the constraint: ${constraint}`);
+            this.constraint = constraint;
+        }
+    }
+
+    /**
+     * The value was read, but could not be converted by a function
+     * given to {@link transform} or {@link preprocess}. 'cause' is
+     * what the function threw, if anything.
+     */
+    static TransformError = class extends JsonParseError {
+        readonly reason: string;
+
+        constructor(context: ParseContext, reason: string, cause?: unknown) {
+            super(context, `But this could not be converted: ${reason}`);
+            this.reason = reason;
+            this.cause = cause;
+        }
+    }
+
+    /**
+     * A file, or a "$ref" or "$include" in one, could not be read by
+     * {@link JsonParser.parseFileAsync}.
+     */
+    static RefError = class extends JsonParseError {
+        readonly reason: string;
+
+        constructor(context: ParseContext, reason: string, span?: Maybe<SourceSpan>) {
+            super(context, `But ${reason}`, span);
+            this.reason = reason;
+        }
+    }
+
+    /** The value is not one of those allowed by a literal or {@link enumOf} specification. */
+    static UnexpectedValueError = class extends JsonParseError {
+        readonly allowed: Literal[];
+
+        constructor(context: ParseContext, allowed: Literal[]) {
+            super(context, `But this is not one of the allowed values: ${allowed.map(renderJsValue).join(', ')}`);
+            this.allowed = allowed;
+        }
+    }
+
+    /**
+     * None of the alternatives of an {@link anyOf} matched. 'errors'
+     * holds the error from each alternative, and 'closest' the index
+     * of the alternative that got furthest, if there is one.
+     */
+    static NoMatchingAlternativeError = class extends JsonParseError {
+        readonly errors: JsonParseError[];
+        readonly closest?: number;
+
+        constructor(context: ParseContext, errors: JsonParseError[]) {
+            const closest = closestAlternative(errors);
+            const alternatives = errors.map((e, i) => {
+                const rendered = (e instanceof JsonParser.AggregateParseError ? e.errors : [e]).map(x => x.renderFrom(context)).join('\n\n');
+                return `- alternative ${i + 1}${i === closest ? ' (closest match)' : ''}:\n${indent(rendered, '  ')}`;
+            });
+            super(context, `But this does not match any of the ${errors.length} alternatives:\n${alternatives.join('\n')}`);
+            this.errors = errors;
+            this.closest = closest;
         }
     }
 
     static MissingKeysError = class extends JsonParseError {
+        readonly keys: string[];
+
         constructor(context: ParseContext, keys: string[]) {
             super(context, `But the following keys are required and were not specified: ${keys.map(k => JSON.stringify(k)).join(', ')}`);
+            this.keys = keys;
         }
     }
 
     static UnknownKeysError = class extends JsonParseError {
+        readonly keys: string[];
+
         constructor(context: ParseContext, keys: string[]) {
             super(context, `But I saw the following keys which are not accepted by the specification: ${keys.map(k => JSON.stringify(k)).join(', ')}`);
+            this.keys = keys;
+        }
+    }
+
+    static RestKeyClashError = class extends JsonParseError {
+        readonly key: string;
+
+        constructor(context: ParseContext, key: string, description: string) {
+            super(context, `But the key ${JSON.stringify(key)} cannot be used for unknown keys as it is already specified by the ${description}`);
+            this.key = key;
         }
     }
 
     static UnknownSpecError = class extends JsonParseError {
+        readonly spec: TySpec;
+
         constructor(context: ParseContext, spec: TySpec) {
             super(context, `But I don't know how to parse a value for the specification: ${tySpecDescription(spec)}`);
+            this.spec = spec;
+        }
+    }
+
+    /** Several errors, reported together. Nested aggregates are flattened. */
+    static AggregateParseError = class extends JsonParseError {
+        readonly errors: JsonParseError[];
+
+        constructor(errors: JsonParseError[]) {
+            const flattened = errors.flatMap(e => e instanceof JsonParser.AggregateParseError ? e.errors : [e]);
+            super(ParseContext.topLevelContext(), `I found ${flattened.length} error${flattened.length === 1 ? '' : 's'}:\n\n${flattened.map(e => e.message).join('\n\n')}`);
+            this.errors = flattened;
+        }
+    }
+
+    static UnknownDumpSpecError = class extends JsonParseError {
+        readonly spec: TySpec;
+
+        constructor(context: ParseContext, spec: TySpec) {
+            super(context, `But I don't know how to write a value for the specification: ${tySpecDescription(spec)}`);
+            this.spec = spec;
         }
     }
 }
 
 type StringKeyed<T> = { [k: string]: T };
 
+/**
+ * Specifications for the keys of an object, as accepted by {@link
+ * JsonSchema.objectSchema}. (Not 'KeySpec<any>', from which TypeScript
+ * before 6.0 infers 'any' for keys given by {@link JsonSchema.withDefault}.)
+ */
+type ObjectKeySpecs = StringKeyed<TySpec | KeySpec<unknown>>;
+
+/** A handler for one type of JSON value that gives its result straight away. */
+type JHandler<J extends JsonValue, T> = (parser: JsonParser, json: J) => JsonParseResult<T>;
+
+/**
+ * Stands for the result of an asynchronous handler that has not
+ * finished, while {@link JsonParser.parseAsAsync} is starting them.
+ * Never reported.
+ */
+class PendingParseError extends JsonParseError {
+    constructor(context: ParseContext) {
+        super(context, 'But this is still being read');
+    }
+}
+
+/** A "$ref" or "$include" followed by {@link JsonParser.parseFileAsync}. */
+type FollowedRef = {
+    /** Either "$ref" or "$include". */
+    directive: string,
+    /** The file the reference is written in. */
+    from: string,
+    /** The file (and the JSON Pointer within it, if any) that the reference leads to. */
+    target: string,
+};
+
+/**
+ * Reads files for {@link JsonParser.parseFileAsync}, replacing each
+ * "$ref" and "$include" with a copy of what it refers to, so that
+ * every value reached by following a reference is distinct.
+ */
+class RefResolver {
+    /** The values reached by following references, with the references followed to reach them (outermost first). */
+    readonly followed: Map<JsonValue, FollowedRef[]>;
+    /** The files that have been read, or the reason they could not be. */
+    private files: Map<string, Promise<Either<string, JsonValue>>>;
+    private readFile: FileReader;
+    private readText: (text: string, name: string) => JsonParseResult<JsonValue>;
+
+    constructor(readFile: FileReader, readText: (text: string, name: string) => JsonParseResult<JsonValue>) {
+        this.followed = new Map();
+        this.files = new Map();
+        this.readFile = readFile;
+        this.readText = readText;
+    }
+
+    /** Read the file at 'path', with its references replaced. */
+    async resolveFile(path: string): Promise<JsonParseResult<JsonValue>> {
+        const context = ParseContext.topLevelContext();
+        let text;
+        try {
+            text = await this.readFile(path);
+        } catch (e) {
+            return JsonParser.failParse(new JsonParser.RefError(context, `I could not read ${path}: ${e instanceof Error ? e.message : String(e)}`));
+        }
+        const read = this.readText(text, path);
+        if (read.isLeft()) {
+            return read;
+        }
+        const file = resolveFilePath('', path);
+        this.files.set(file, Promise.resolve(Either.right(read.unwrapRight())));
+        return this.resolve(read.unwrapRight(), file, context, [file]);
+    }
+
+    private loadFile(path: string): Promise<Either<string, JsonValue>> {
+        let loaded = this.files.get(path);
+        if (loaded === undefined) {
+            loaded = Promise.resolve().then(() => this.readFile(path)).then(
+                text => this.readText(text, path).mapBoth(err => `I could not read ${path}: ${err instanceof JsonParser.JsonSyntaxError
+                    ? `syntax error at line ${err.line}, column ${err.column}: ${err.reason}` : err.message}`, json => json),
+                e => Either.left(`I could not read ${path}: ${e instanceof Error ? e.message : String(e)}`));
+            this.files.set(path, loaded);
+        }
+        return loaded;
+    }
+
+    /**
+     * Copy 'json' (read from 'file'), replacing its references.
+     * 'active' holds the targets of the references being followed,
+     * so that those leading back to one of them can be reported.
+     */
+    private async resolve(json: JsonValue, file: string, context: ParseContext, active: string[]): Promise<JsonParseResult<JsonValue>> {
+        const span = json.getSpan().maybe(undefined, sp => sp);
+        if (json.isArray()) {
+            const xs = await Promise.all(json.unwrap().map((x, i) => this.resolve(x, file, ParseContext.indexEntered(context, i), active)));
+            return Either.catEithers(xs).map(xs => GenJsonValue.jsonArray(xs, span));
+        } else if (!json.isObject()) {
+            return JsonParser.parseOk(new GenJsonValue(json.unwrap(), json.getType(), span, json.getNumberText().maybe(undefined, t => t)));
+        }
+        const o = json.unwrap();
+        if (Object.prototype.hasOwnProperty.call(o, '$ref')) {
+            return this.resolveRef(json, file, context, active);
+        }
+        const ks = Object.keys(o).filter(k => k !== '$include');
+        const [included, vs] = await Promise.all([
+            Object.prototype.hasOwnProperty.call(o, '$include')
+                ? this.resolveIncludes(o['$include'], file, ParseContext.keyEntered(context, '$include'), active)
+                : Promise.resolve(JsonParser.parseOk<JsonObject[]>([])),
+            Promise.all(ks.map(k => this.resolve(o[k], file, ParseContext.keyEntered(context, k), active))),
+        ]);
+        return included.mapCollecting(included => Either.catEithers(vs).map(vs => {
+            const res: StringKeyed<JsonValue> = {};
+            for (const inc of included) {
+                const refs = this.followed.get(inc) ?? [];
+                for (const [k, v] of Object.entries(inc.unwrap())) {
+                    this.followed.set(v, [...refs, ...this.followed.get(v) ?? []]);
+                    res[k] = v;
+                }
+            }
+            ks.forEach((k, i) => { res[k] = vs[i]; });
+            return GenJsonValue.jsonObject(res, span);
+        }));
+    }
+
+    private resolveRef(json: JsonObject, file: string, context: ParseContext, active: string[]): Promise<JsonParseResult<JsonValue>> {
+        const o = json.unwrap();
+        const ref = o['$ref'];
+        if (!ref.isString()) {
+            return Promise.resolve(JsonParser.failParse(new JsonParser.RefError(context, '$ref must be a string', json.getSpan())));
+        } else if (Object.keys(o).length > 1) {
+            return Promise.resolve(JsonParser.failParse(new JsonParser.RefError(context, 'an object with $ref cannot have other keys', json.getSpan())));
+        }
+        return this.follow('$ref', ref.unwrap(), json, file, context, active);
+    }
+
+    /** Follow each file named by the "$include" key, giving the objects found there. */
+    private async resolveIncludes(include: JsonValue, file: string, context: ParseContext, active: string[]): Promise<JsonParseResult<JsonObject[]>> {
+        const refs = include.isArray() ? include.unwrap() : [include];
+        const names = refs.flatMap(ref => ref.isString() ? [ref] : []);
+        if (names.length !== refs.length) {
+            return JsonParser.failParse(new JsonParser.RefError(context, '$include must be a file name, or an array of them', include.getSpan()));
+        }
+        const found = await Promise.all(names.map(async name => {
+            const res = await this.follow('$include', name.unwrap(), name, file, context, active);
+            return res.mapCollecting(json => json.isObject() ? JsonParser.parseOk(json)
+                : JsonParser.failParse<JsonObject>(new JsonParser.RefError(context, `${name.unwrap()} is not an object, so cannot be included`, name.getSpan())));
+        }));
+        return Either.catEithers(found);
+    }
+
+    /** Follow the reference 'ref', written at 'site' in 'file', giving a copy of the value it refers to. */
+    private async follow(directive: string, ref: string, site: JsonValue, file: string, context: ParseContext, active: string[]): Promise<JsonParseResult<JsonValue>> {
+        const fail = (reason: string) => JsonParser.failParse<JsonValue>(new JsonParser.RefError(context, reason, site.getSpan()));
+        const hash = ref.indexOf('#');
+        const path = hash === 0 ? file : resolveFilePath(file, hash === -1 ? ref : ref.slice(0, hash));
+        const pointer = hash === -1 ? '' : ref.slice(hash + 1);
+        const target = pointer === '' ? path : `${path}#${pointer}`;
+        if (active.includes(target)) {
+            return fail(`this leads back to itself: ${[...active.slice(active.indexOf(target)), target].join(' -> ')}`);
+        }
+        const loaded = await this.loadFile(path);
+        if (loaded.isLeft()) {
+            return fail(loaded.unwrapLeft());
+        }
+        const found = lookUpPointer(loaded.unwrapRight(), pointer);
+        if (found === undefined) {
+            return fail(`${path} has no value at ${pointer}`);
+        }
+        const followed = { directive, from: file, target };
+        const res = await this.resolve(found, path, ParseContext.refFollowed(context, followed), [...active, target]);
+        return res.map(json => {
+            this.followed.set(json, [followed, ...this.followed.get(json) ?? []]);
+            return json;
+        });
+    }
+}
+
+/**
+ * The path of the file 'path' (which may be relative) from the file
+ * 'from'. Either may use '\' as a separator, as on Windows, but the
+ * result always uses '/'.
+ */
+function resolveFilePath(from: string, path: string): string {
+    const target = path.replace(/\\/g, '/');
+    const isAbsolute = /^([A-Za-z]:)?\//.test(target);
+    const parts = (isAbsolute ? target : from.replace(/\\/g, '/').replace(/[^/]*$/, '') + target).split('/');
+    const res: string[] = [];
+    for (const part of parts) {
+        if (part === '..' && res.length > 0 && res[res.length - 1] !== '..' && res[res.length - 1] !== '' && !/^[A-Za-z]:$/.test(res[res.length - 1])) {
+            res.pop();
+        } else if (part !== '.') {
+            res.push(part);
+        }
+    }
+    return res.join('/');
+}
+
+/** The value that the JSON Pointer (RFC 6901, written as in a URI fragment) points to in 'json', if any. */
+function lookUpPointer(json: JsonValue, pointer: string): JsonValue | undefined {
+    if (pointer === '') {
+        return json;
+    } else if (!pointer.startsWith('/')) {
+        return undefined;
+    }
+    let res = json;
+    for (const segment of pointer.slice(1).split('/')) {
+        let k;
+        try {
+            k = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+        } catch {
+            return undefined;
+        }
+        let next;
+        if (res.isObject() && Object.prototype.hasOwnProperty.call(res.unwrap(), k)) {
+            next = res.unwrap()[k];
+        } else if (res.isArray() && /^(0|[1-9][0-9]*)$/.test(k)) {
+            next = res.unwrap()[Number(k)];
+        }
+        if (next === undefined) {
+            return undefined;
+        }
+        res = next;
+    }
+    return res;
+}
+
 type JParser<T> = {
-    onArray: (parser: JsonParser, json: JsonArray) => JsonParseResult<T>,
-    onBoolean: (parser: JsonParser, json: JsonBoolean) => JsonParseResult<T>,
-    onNull: (parser: JsonParser, json: JsonNull) => JsonParseResult<T>,
-    onNumber: (parser: JsonParser, json: JsonNumber) => JsonParseResult<T>,
-    onObject: (parser: JsonParser, json: JsonObject) => JsonParseResult<T>
-    onString: (parser: JsonParser, json: JsonString) => JsonParseResult<T>
+    onArray: (parser: JsonParser, json: JsonArray) => JsonParseResultAsync<T>,
+    onBoolean: (parser: JsonParser, json: JsonBoolean) => JsonParseResultAsync<T>,
+    onNull: (parser: JsonParser, json: JsonNull) => JsonParseResultAsync<T>,
+    onNumber: (parser: JsonParser, json: JsonNumber) => JsonParseResultAsync<T>,
+    onObject: (parser: JsonParser, json: JsonObject) => JsonParseResultAsync<T>
+    onString: (parser: JsonParser, json: JsonString) => JsonParseResultAsync<T>
 };
 
-function allSchemasSame<T>(f: (parser: JsonParser, value: JsonValue) => JsonParseResult<T>): JParser<T> {
+function allSchemasSame<T>(f: (parser: JsonParser, value: JsonValue) => JsonParseResultAsync<T>): JParser<T> {
     return {
         onArray: f,
         onBoolean: f,
@@ -435,25 +1386,47 @@ function allSchemasSame<T>(f: (parser: JsonParser, value: JsonValue) => JsonPars
 /** Schema that specifies how to load a specific class from JSON. */
 export class JsonSchema<T> {
     private objectParser: JParser<T>;
+    private knownKeys: (parser: JsonParser) => string[];
 
-    constructor(objectParser: Partial<JParser<T>>) {
+    /**
+     * 'knownKeys' gives the object keys that the schema reads, if it
+     * reads objects by key (see {@link getKnownKeys}).
+     */
+    constructor(objectParser: Partial<JParser<T>>, knownKeys: (parser: JsonParser) => string[] = _ => []) {
         this.objectParser = {
             ...allSchemasSame((parser, value) => parser.failWithTypeError(value.getType())),
             ...objectParser
         };
+        this.knownKeys = knownKeys;
+    }
+
+    /**
+     * The object keys that the schema reads. Used by {@link allOf} so
+     * that keys read by one member are not unknown to the others.
+     */
+    getKnownKeys(parser: JsonParser): string[] {
+        return this.knownKeys(parser);
     }
 
-    static genArraySchema<T>(eltSpec: TySpec, onRes: (x: any[]) => T): JParser<T>['onArray'] {
+    static genArraySchema<T>(eltSpec: TySpec, onRes: (x: any[]) => T): JHandler<JsonArray, T> {
         return (parser: JsonParser, json: JsonArray): JsonParseResult<T> => {
             const res = new Array<any>();
+            const errs: JsonParseError[] = [];
             const arr = json.unwrap();
             for (let i = 0; i < arr.length; i++) {
-                const v = parser.loadAs(arr[i], eltSpec);
+                const v = parser.loadIndexAs(i, arr[i], eltSpec);
                 if (v.isLeft()) {
-                    return v.propLeft();
+                    if (!parser.isCollectingErrors()) {
+                        return v.propLeft();
+                    }
+                    errs.push(v.unwrapLeft());
+                    continue;
                 }
                 res[i] = v.unwrapRight();
             }
+            if (isNonEmptyArray(errs)) {
+                return parser.failWithErrors(errs);
+            }
             return JsonParser.parseOk(onRes(res));
         }
     }
@@ -464,7 +1437,7 @@ export class JsonSchema<T> {
         });
     }
 
-    static genBooleanSchema<T>(onRes: (x: boolean) => T): JParser<T>['onBoolean'] {
+    static genBooleanSchema<T>(onRes: (x: boolean) => T): JHandler<JsonBoolean, T> {
         return (_parser: JsonParser, json: JsonBoolean): JsonParseResult<T> => {
             return JsonParser.parseOk(onRes(json.unwrap()));
         }
@@ -476,7 +1449,7 @@ export class JsonSchema<T> {
         });
     }
 
-    static genNullSchema<T>(onRes: (x: null) => T): JParser<T>['onNull'] {
+    static genNullSchema<T>(onRes: (x: null) => T): JHandler<JsonNull, T> {
         return (_parser: JsonParser, json: JsonNull): JsonParseResult<T> => {
             return JsonParser.parseOk(onRes(json.unwrap()));
         }
@@ -488,7 +1461,7 @@ export class JsonSchema<T> {
         });
     }
 
-    static genNumberSchema<T>(onRes: (x: number) => T): JParser<T>['onNumber'] {
+    static genNumberSchema<T>(onRes: (x: number) => T): JHandler<JsonNumber, T> {
         return (_parser: JsonParser, json: JsonNumber): JsonParseResult<T> => {
             return JsonParser.parseOk(onRes(json.unwrap()));
         }
@@ -500,17 +1473,25 @@ export class JsonSchema<T> {
         });
     }
 
-    static genObjectMapSchema<T>(kfun: (k: string) => TySpec, onRes: (x: Map<string, any>) => T): JParser<T>['onObject'] {
+    static genObjectMapSchema<T>(kfun: (k: string) => TySpec, onRes: (x: Map<string, any>) => T): JHandler<JsonObject, T> {
         return (parser: JsonParser, json: JsonObject): JsonParseResult<T> => {
             const res = new Map<string, any>();
+            const errs: JsonParseError[] = [];
             const obj = json.unwrap();
             for (const k in obj) {
                 const v = parser.loadKeyAs(k, obj[k], kfun(k));
                 if (v.isLeft()) {
-                    return v.propLeft();
+                    if (!parser.isCollectingErrors()) {
+                        return v.propLeft();
+                    }
+                    errs.push(v.unwrapLeft());
+                    continue;
                 }
                 res.set(k, v.unwrapRight());
             }
+            if (isNonEmptyArray(errs)) {
+                return parser.failWithErrors(errs);
+            }
             return JsonParser.parseOk(onRes(res));
         }
     }
@@ -521,42 +1502,128 @@ export class JsonSchema<T> {
         });
     }
 
-    static objectSchema<T>(ks: StringKeyed<TySpec>, onRes: (x: StringKeyed<any>) => T): JsonSchema<T> {
-        return new JsonSchema({
-            onObject(parser: JsonParser, json: JsonObject): JsonParseResult<T> {
-                const unreadKeys = new Set<string>();
-                const missedKeys = new Set<string>();
-                for (const ksk in ks) {
-                    missedKeys.add(ksk);
-                }
-                const res: { [k: string]: any } = {};
-                const obj = json.unwrap();
-                for (const k in obj) {
+    /**
+     * Schema for an object with the given keys.
+     *
+     * Each key is required, unless it is specified with {@link
+     * JsonSchema.optional} (in which case it is left out of the
+     * result if absent), or {@link JsonSchema.withDefault} or {@link
+     * JsonSchema.withDefaultFn} (in which case the default is used if
+     * the key is absent).
+     *
+     * 'opts.unknownKeys' determines what happens to keys that are
+     * not in 'ks'. If not provided, the parser's policy is used.
+     *
+     * The object passed to 'onRes' is typed according to 'ks' (see
+     * {@link ObjectResult}); any keys kept by the unknown keys
+     * policy are not part of that type.
+     *
+     * The result keeps the keys, so that schemas for related objects
+     * can be made from it (see {@link ObjectSchema}).
+     */
+    static objectSchema<T, const K extends ObjectKeySpecs = ObjectKeySpecs>(ks: K, onRes: (x: ObjectResult<K>) => T, opts: { unknownKeys?: UnknownKeysPolicy } = {}): ObjectSchema<T, K> {
+        return new ObjectSchema(ks, onRes, opts);
+    }
+
+    static genObjectSchema<T, K extends ObjectKeySpecs>(ks: K, onRes: (x: ObjectResult<K>) => T, specPolicy?: UnknownKeysPolicy): JHandler<JsonObject, T> {
+        return (parser: JsonParser, json: JsonObject): JsonParseResult<T> => {
+            const policy = specPolicy !== undefined ? specPolicy : parser.getUnknownKeysPolicy();
+            if (specPolicy === undefined && typeof policy === 'object' && policy.rest in ks) {
+                return parser.failWithRestKeyClash(policy.rest, JsonSchema.describeKeys(ks, spec => parser._getDescriptionForSpec(spec)));
+            }
+            const unreadKeys = new Set<string>();
+            const missedKeys = new Set<string>();
+            for (const ksk in ks) {
+                missedKeys.add(ksk);
+            }
+            const res: { [k: string]: any } = {};
+            const errs: JsonParseError[] = [];
+            const obj = json.unwrap();
+            for (const k in obj) {
+                if (!parser.isKeyKnownElsewhere(json, k)) {
                     unreadKeys.add(k);
-                    for (const ksk in ks) {
-                        if (ksk == k) {
-                            unreadKeys.delete(k);
-                            missedKeys.delete(ksk);
-                            const v = parser.loadKeyAs(k, obj[k], ks[ksk]);
-                            if (v.isLeft()) {
+                }
+                for (const ksk in ks) {
+                    if (ksk == k) {
+                        unreadKeys.delete(k);
+                        missedKeys.delete(ksk);
+                        const keySpec = KeySpec.from(ks[ksk]);
+                        const v = parser.loadKeyAs(k, obj[k], keySpec.spec, !keySpec.isRequired());
+                        if (v.isLeft()) {
+                            if (!parser.isCollectingErrors()) {
                                 return v.propLeft();
                             }
-                            res[k] = v.unwrapRight();
+                            errs.push(v.unwrapLeft());
+                            continue;
                         }
+                        res[k] = v.unwrapRight();
                     }
                 }
-                if (unreadKeys.size > 0) {
-                    return parser.failWithUnknownKeys(Array.from(unreadKeys.values()));
+            }
+            if (policy === 'reject' && unreadKeys.size > 0) {
+                const unknownKeysErr = parser.failWithUnknownKeys<T>(Array.from(unreadKeys.values()));
+                if (!parser.isCollectingErrors()) {
+                    return unknownKeysErr;
+                }
+                errs.push(unknownKeysErr.unwrapLeft());
+            }
+            for (const k of missedKeys) {
+                const keySpec = KeySpec.from(ks[k]);
+                if (!keySpec.isRequired()) {
+                    missedKeys.delete(k);
+                    keySpec.getDefault().maybe(undefined, d => { res[k] = d(); });
                 }
-                if (missedKeys.size > 0) {
-                    return parser.failWithMissingKeys(Array.from(missedKeys.values()));
+            }
+            if (missedKeys.size > 0) {
+                const missingKeysErr = parser.failWithMissingKeys<T>(Array.from(missedKeys.values()));
+                if (!parser.isCollectingErrors()) {
+                    return missingKeysErr;
                 }
-                return JsonParser.parseOk(onRes(res));
+                errs.push(missingKeysErr.unwrapLeft());
             }
-        });
+            if (isNonEmptyArray(errs)) {
+                return parser.failWithErrors(errs);
+            }
+            if (policy === 'passthrough') {
+                for (const k of unreadKeys) {
+                    res[k] = obj[k].unwrapFully();
+                }
+            } else if (typeof policy === 'object') {
+                res[policy.rest] = new Map(Array.from(unreadKeys).map(k => [k, obj[k].unwrapFully()]));
+            }
+            return JsonParser.parseOk(onRes(res as ObjectResult<K>));
+        }
+    }
+
+    /** Specify an object key that may be left out. */
+    static optional<const S extends TySpec>(spec: S): KeySpec<SpecResult<S>, true> {
+        return new KeySpec(spec, false, Maybe.none());
+    }
+
+    /** Specify an object key that takes the given value if left out. */
+    static withDefault<const S extends TySpec>(spec: S, defaultValue: NoInfer<SpecResult<S>>): KeySpec<SpecResult<S>, false> {
+        return new KeySpec(spec, false, Maybe.some(() => defaultValue));
+    }
+
+    /**
+     * Specify an object key whose value is produced by the given
+     * function if left out. Use this rather than {@link withDefault}
+     * for mutable default values.
+     */
+    static withDefaultFn<const S extends TySpec>(spec: S, mkDefault: () => NoInfer<SpecResult<S>>): KeySpec<SpecResult<S>, false> {
+        return new KeySpec(spec, false, Maybe.some(mkDefault));
     }
 
-    static genStringSchema<T>(onRes: (x: string) => T): JParser<T>['onString'] {
+    /**
+     * Describe the keys of an object, as would be accepted by {@link
+     * objectSchema}. Useful for building descriptions.
+     */
+    static describeKeys(ks: ObjectKeySpecs, getDesc: (t: TySpec) => string): string {
+        const keyDescs = Object.keys(ks).map(k => `${JSON.stringify(k)} (${KeySpec.from(ks[k]).describe(getDesc)})`);
+        return keyDescs.length === 0 ? 'object with no keys' : `object with keys: ${keyDescs.join(', ')}`;
+    }
+
+    static genStringSchema<T>(onRes: (x: string) => T): JHandler<JsonString, T> {
         return (_parser: JsonParser, json: JsonString): JsonParseResult<T> => {
             return JsonParser.parseOk(onRes(json.unwrap()));
         }
@@ -568,11 +1635,11 @@ export class JsonSchema<T> {
         });
     }
 
-    static customSchema<T>(specs: Partial<JParser<T>>): JsonSchema<T> {
-        return new JsonSchema(specs);
+    static customSchema<T>(specs: Partial<JParser<T>>, knownKeys?: (parser: JsonParser) => string[]): JsonSchema<T> {
+        return new JsonSchema(specs, knownKeys);
     }
 
-    on(parser: JsonParser, o: JsonValue): JsonParseResult<T> {
+    on(parser: JsonParser, o: JsonValue): JsonParseResultAsync<T> {
         if (o.isArray()) {
             return this.objectParser.onArray(parser, o);
         } else if (o.isBoolean()) {
@@ -590,6 +1657,198 @@ export class JsonSchema<T> {
     }
 }
 
+/**
+ * Schema for an object with the given keys, made by {@link
+ * JsonSchema.objectSchema}. The keys are kept, so that schemas for
+ * related objects can be made from them. These produce plain objects
+ * (rather than using the function given to 'objectSchema'), and keep
+ * the unknown keys policy.
+ */
+export class ObjectSchema<T, K extends ObjectKeySpecs> extends JsonSchema<T> {
+    readonly keys: K;
+    private readonly unknownKeys?: UnknownKeysPolicy;
+
+    constructor(ks: K, onRes: (x: ObjectResult<K>) => T, opts: { unknownKeys?: UnknownKeysPolicy } = {}) {
+        const specPolicy = opts.unknownKeys;
+        if (specPolicy !== undefined && typeof specPolicy === 'object' && specPolicy.rest in ks) {
+            throw new TypeError(`the key ${JSON.stringify(specPolicy.rest)} cannot be used for unknown keys as it is already specified`);
+        }
+        super({ onObject: JsonSchema.genObjectSchema(ks, onRes, specPolicy) }, _ => Object.keys(ks));
+        this.keys = ks;
+        this.unknownKeys = specPolicy;
+    }
+
+    private derive<K2 extends ObjectKeySpecs>(ks: K2): ObjectSchema<ObjectResult<K2>, K2> {
+        return new ObjectSchema(ks, o => o, { unknownKeys: this.unknownKeys });
+    }
+
+    /** Schema with the keys of this schema and those of 'ks', which replace any with the same name. */
+    extend<const K2 extends ObjectKeySpecs>(ks: K2): ObjectSchema<ObjectResult<Extended<K, K2>>, Extended<K, K2>> {
+        return this.derive({ ...this.keys, ...ks } as Extended<K, K2>);
+    }
+
+    /** Schema with only the given keys of this schema. */
+    pick<const P extends keyof K & string>(...keys: P[]): ObjectSchema<ObjectResult<Pick<K, P>>, Pick<K, P>> {
+        return this.derive(Object.fromEntries(keys.map(k => [k, this.keys[k]])) as Pick<K, P>);
+    }
+
+    /** Schema with the keys of this schema other than those given. */
+    omit<const P extends keyof K & string>(...keys: P[]): ObjectSchema<ObjectResult<Omit<K, P>>, Omit<K, P>> {
+        const omitted: string[] = keys;
+        return this.derive(Object.fromEntries(Object.entries(this.keys).filter(([k]) => !omitted.includes(k))) as Omit<K, P>);
+    }
+
+    /** Schema where every key may be left out. Defaults are not used. */
+    partial(): ObjectSchema<ObjectResult<PartialKeys<K>>, PartialKeys<K>> {
+        return this.derive(mapKeySpecs(this.keys, ks => new KeySpec(ks.spec, false, Maybe.none())) as PartialKeys<K>);
+    }
+
+    /** Schema where every key must be present. Defaults are not used. */
+    required(): ObjectSchema<ObjectResult<RequiredKeys<K>>, RequiredKeys<K>> {
+        return this.derive(mapKeySpecs(this.keys, ks => new KeySpec(ks.spec, true, Maybe.none())) as RequiredKeys<K>);
+    }
+
+    /** Describe the keys (see {@link JsonSchema.describeKeys}). */
+    describe(getDesc: (t: TySpec) => string): string {
+        return JsonSchema.describeKeys(this.keys, getDesc);
+    }
+}
+
+function mapKeySpecs(ks: ObjectKeySpecs, f: (ks: KeySpec) => KeySpec): StringKeyed<KeySpec> {
+    return Object.fromEntries(Object.entries(ks).map(([k, spec]) => [k, f(KeySpec.from(spec))]));
+}
+
+/**
+ * Specification for the value of an object key.
+ *
+ * 'T' is the type of the loaded value, and 'Optional' is true if the
+ * key may be missing from the result.
+ */
+export class KeySpec<T = any, Optional extends boolean = boolean> {
+    readonly spec: TySpec;
+    private readonly required: boolean;
+    private readonly defaultValue: Maybe<() => unknown>;
+    /** Only present in the type, to record 'T' and 'Optional'. */
+    private declare readonly resultType?: [T, Optional];
+
+    constructor(spec: TySpec, required: boolean, defaultValue: Maybe<() => unknown>) {
+        this.spec = spec;
+        this.required = required;
+        this.defaultValue = defaultValue;
+    }
+
+    /** True if the key must be present. */
+    isRequired(): boolean {
+        return this.required;
+    }
+
+    /** Function for producing the value to use if the key is absent, if any. */
+    getDefault(): Maybe<() => unknown> {
+        return this.defaultValue;
+    }
+
+    describe(getDesc: (t: TySpec) => string): string {
+        const desc = getDesc(this.spec);
+        if (this.required) {
+            return desc;
+        }
+        return this.defaultValue.maybe(`optional ${desc}`, d => `${desc}, default: ${renderJsValue(d())}`);
+    }
+
+    static from(spec: TySpec | KeySpec): KeySpec {
+        return spec instanceof KeySpec ? spec : new KeySpec(spec, true, Maybe.none());
+    }
+}
+
+type JDumper<T> = (parser: JsonParser, value: T) => JsonParseResult<JsonValueRaw>;
+
+/** Specifies how to write a value of a specific class as JSON. */
+export class JsonDumper<T> {
+    private dumper: JDumper<T>;
+
+    constructor(dumper: JDumper<T>) {
+        this.dumper = dumper;
+    }
+
+    /** Write each element of the array produced by 'toArray' with 'eltSpec'. */
+    static arrayDumper<T>(eltSpec: TySpec, toArray: (x: T) => any[]): JsonDumper<T> {
+        return new JsonDumper((parser: JsonParser, value: T): JsonParseResult<JsonValueRaw> => {
+            const res = new Array<JsonValueRaw>();
+            const arr = toArray(value);
+            for (let i = 0; i < arr.length; i++) {
+                const v = parser.dumpIndexAs(i, arr[i], eltSpec);
+                if (v.isLeft()) {
+                    return v.propLeft();
+                }
+                res[i] = v.unwrapRight();
+            }
+            return JsonParser.parseOk(res);
+        });
+    }
+
+    /** Write each entry of the map produced by 'toMap' as an object key, using the specification given by 'kfun'. */
+    static objectMapDumper<T>(kfun: (k: string) => TySpec, toMap: (x: T) => Map<string, any>): JsonDumper<T> {
+        return new JsonDumper((parser: JsonParser, value: T): JsonParseResult<JsonValueRaw> => {
+            const res: StringKeyed<JsonValueRaw> = {};
+            for (const [k, v] of toMap(value)) {
+                const kv = parser.dumpKeyAs(k, v, kfun(k));
+                if (kv.isLeft()) {
+                    return kv.propLeft();
+                }
+                res[k] = kv.unwrapRight();
+            }
+            return JsonParser.parseOk(res);
+        });
+    }
+
+    /**
+     * Write the keys given in 'ks' from the object produced by
+     * 'toObject' (by default, the value itself), using the matching
+     * specification for each key. Keys that are not required are
+     * left out if their value is undefined.
+     */
+    static objectDumper<T>(ks: ObjectKeySpecs, toObject: (x: T) => StringKeyed<any> = x => x as any): JsonDumper<T> {
+        return JsonDumper.guarded((x: unknown): x is T => typeof x === 'object' && x !== null && !Array.isArray(x),
+            new JsonDumper((parser: JsonParser, value: T): JsonParseResult<JsonValueRaw> => {
+                const res: StringKeyed<JsonValueRaw> = {};
+                const obj = toObject(value);
+                for (const k in ks) {
+                    const keySpec = KeySpec.from(ks[k]);
+                    if (obj[k] === undefined && !keySpec.isRequired()) {
+                        continue;
+                    }
+                    const v = parser.dumpKeyAs(k, obj[k], keySpec.spec);
+                    if (v.isLeft()) {
+                        return v.propLeft();
+                    }
+                    res[k] = v.unwrapRight();
+                }
+                return JsonParser.parseOk(res);
+            }));
+    }
+
+    /**
+     * Only use the dumper for values that satisfy 'accepts', failing
+     * with a type error for any other value.
+     */
+    static guarded<T>(accepts: (x: unknown) => x is T, dumper: JsonDumper<T>): JsonDumper<any> {
+        return new JsonDumper((parser: JsonParser, value: unknown) => {
+            if (accepts(value)) {
+                return dumper.dump(parser, value);
+            }
+            return parser.failWithTypeError(jsTypeDescription(value));
+        });
+    }
+
+    static customDumper<T>(dumper: JDumper<T>): JsonDumper<T> {
+        return new JsonDumper(dumper);
+    }
+
+    dump(parser: JsonParser, value: T): JsonParseResult<JsonValueRaw> {
+        return this.dumper(parser, value);
+    }
+}
+
 interface Constructor {
     new(...args: any[]): any;
 }
@@ -599,6 +1858,8 @@ export const AnyTy = Symbol("AnyTy");
 
 type SchemaBuilder = (...args: TySpec[]) => JsonSchema<any>;
 
+type DumperBuilder = (...args: TySpec[]) => JsonDumper<any>;
+
 type DescriptionFn = (...args: TySpec[]) => string;
 
 function tySpecAsGroupedBase(x: TySpec): NonEmptyNested<TySpecBase> {
@@ -612,6 +1873,13 @@ function flattenTySpec(x: TySpec): NonEmpty<TySpecBase> {
     return flattenNonEmpty(tySpecAsGroupedBase(x));
 }
 
+function sameTySpec(x: TySpec, y: TySpec): boolean {
+    if (x instanceof Array && y instanceof Array) {
+        return x.length === y.length && x.every((t, i) => sameTySpec(t, y[i]));
+    }
+    return x === y;
+}
+
 function hasRestParameter(f: (...args: any[]) => any): boolean {
     return f.toString().match(/^(?:function [^(]*)?(\([^)]*\.\.\.[^.) ]+\))/) ? true : false;
 }
@@ -629,27 +1897,82 @@ function argChecker(spec: TySpec, f: (...args: any[]) => any, maxArgs: undefined
 class Spec<T> {
     private description: Maybe<DescriptionFn>;
     private builder: Maybe<(...args: TySpec[]) => JsonSchema<T>>;
+    private dumper: Maybe<(...args: TySpec[]) => JsonDumper<T>>;
 
     constructor(opts: {
         description?: DescriptionFn,
-        build?: (...args: TySpec[]) => JsonSchema<T>
+        build?: (...args: TySpec[]) => JsonSchema<T>,
+        dump?: (...args: TySpec[]) => JsonDumper<T>
     }) {
         this.description = opts.description === undefined ? Maybe.none() : Maybe.some(opts.description);
         this.builder = opts.build === undefined ? Maybe.none() : Maybe.some(opts.build);
+        this.dumper = opts.dump === undefined ? Maybe.none() : Maybe.some(opts.dump);
+    }
+
+    getBuilder(): Maybe<(...args: TySpec[]) => JsonSchema<T>> {
+        return this.builder;
+    }
+
+    getDumper(): Maybe<(...args: TySpec[]) => JsonDumper<T>> {
+        return this.dumper;
     }
 
-    getBuilder(): Maybe<(...args: TySpec[]) => JsonSchema<T>> {
-        return this.builder;
+    getDescriptionFn(): Maybe<DescriptionFn> {
+        return this.description;
+    }
+}
+
+/**
+ * A specifier that brings its own description, loader and dumper,
+ * rather than being added to a {@link Schemas}. These are made by
+ * functions such as {@link refine}, and take no arguments.
+ */
+export class InlineSpec<T = any> {
+    readonly description: (getDesc: (t: TySpec) => string) => string;
+    readonly load?: JsonSchema<T>;
+    readonly dump?: JsonDumper<T>;
+
+    constructor(opts: {
+        description: (getDesc: (t: TySpec) => string) => string,
+        load?: JsonSchema<T>,
+        dump?: JsonDumper<T>
+    }) {
+        this.description = opts.description;
+        this.load = opts.load;
+        this.dump = opts.dump;
     }
+}
 
-    getDescriptionFn(): Maybe<DescriptionFn> {
-        return this.description;
+/**
+ * A specifier standing for the specification returned by 'getSpec',
+ * which is only called when the specifier is used. Made by {@link lazy}.
+ */
+export class LazySpec<T = any> {
+    private declare readonly resultType?: T;
+    private readonly getSpec: () => TySpec;
+    private resolved: Maybe<TySpec>;
+    readonly name?: string;
+
+    constructor(getSpec: () => TySpec, name?: string) {
+        this.getSpec = getSpec;
+        this.resolved = Maybe.none();
+        this.name = name;
+    }
+
+    /** The specification this stands for. 'getSpec' is only called the first time. */
+    resolve(): TySpec {
+        if (this.resolved.isNone()) {
+            this.resolved = Maybe.some(this.getSpec());
+        }
+        return this.resolved.unwrap();
     }
 }
 
 export class Schemas {
     private aliases: NestMap<TySpecBase, TySpec>;
     private specs: NestMap<TySpecBase, Spec<any>>;
+    /** Specifications whose descriptions are being rendered, so that recursive specifications terminate. */
+    private static describing: TySpec[] = [];
 
     constructor() {
         this.aliases = new NestMap();
@@ -670,16 +1993,23 @@ export class Schemas {
      *
      * 'load' describes how to load a value.
      *
+     * 'dump' describes how to write a value back as JSON.
+     *
      * 'maxArgs' should be the maximum number of argument specifiers
      * supported, and 'description' and 'load' should support being
      * passed this many arguments. If maxArgs is not provided, then
      * the number of mandatory arguments is used, or Infinity if a
      * rest argument exists.
+     *
+     * 'load' and 'dump' must work with the type of value given by
+     * {@link SpecResult} for 'spec', e.g., instances of the class if
+     * 'spec' is a constructor.
      */
-    addSpec<T>(spec: TySpec, opts: {
+    addSpec<const S extends TySpec>(spec: S, opts: {
         description?: string | ((f: (t: TySpec) => string) => (...args: TySpec[]) => string),
         maxArgs?: number
-        load?: JsonSchema<T> | ((...args: TySpec[]) => JsonSchema<T>)
+        load?: JsonSchema<SpecResult<S>> | ((...args: TySpec[]) => JsonSchema<SpecResult<S>>)
+        dump?: JsonDumper<SpecResult<S>> | ((...args: TySpec[]) => JsonDumper<SpecResult<S>>)
     }): Schemas {
         const description = opts.description;
         const s = flattenTySpec(spec);
@@ -708,9 +2038,22 @@ export class Schemas {
             };
         }
 
+        let dumpBuilder: undefined | ((...args: TySpec[]) => JsonDumper<any>) = undefined;
+        const dump = opts.dump;
+        if (dump instanceof JsonDumper) {
+            dumpBuilder = () => dump;
+        } else if (dump !== undefined) {
+            const checkArgs = argChecker(s, dump, opts.maxArgs);
+            dumpBuilder = (...args) => {
+                checkArgs(args);
+                return dump(...args);
+            };
+        }
+
         this.specs.set(s, new Spec({
             description: descFn,
-            build: builder
+            build: builder,
+            dump: dumpBuilder
         }));
         return this;
     }
@@ -730,13 +2073,55 @@ export class Schemas {
             .map(([_, f, args]: [TySpec, SchemaBuilder, TySpec[]]) => f(...args));
     }
 
+    private mostSpecificDumper(spec: TySpec): Maybe<[TySpec, DumperBuilder, TySpec[]]> {
+        return Maybe.join(this.mostSpecificSpec(spec).map(c => c[1].getDumper().map(d => [c[0], d, c[2]])));
+    }
+
+    /** Get the dumper associated with the given specification, if any. */
+    getDumperForSpec(spec: TySpec): Maybe<JsonDumper<any>> {
+        return this.mostSpecificDumper(spec)
+            .map(([_, f, args]: [TySpec, DumperBuilder, TySpec[]]) => f(...args));
+    }
+
+    private inlineSpecAsSpec(spec: InlineSpec): Spec<any> {
+        const checkArgs = argChecker(spec, () => undefined, 0);
+        const { load, dump } = spec;
+        return new Spec({
+            description: (...args) => {
+                checkArgs(args);
+                return spec.description(t => this.getDescription(t));
+            },
+            build: load === undefined ? undefined : (...args) => {
+                checkArgs(args);
+                return load;
+            },
+            dump: dump === undefined ? undefined : (...args) => {
+                checkArgs(args);
+                return dump;
+            }
+        });
+    }
+
     private mostSpecificSpec(spec: TySpec): Maybe<[TySpec, Spec<any>, TySpec[]]> {
         const resolvedSpec = this.resolveAlias(spec);
-        return this.specs.getBestAndRestWithPath(flattenTySpec(resolvedSpec)).map(x => {
+        const [head, ...args] = resolvedSpec instanceof Array ? resolvedSpec : [resolvedSpec];
+        if (head instanceof LazySpec) {
+            const target = head.resolve();
+            return this.mostSpecificSpec(args.length === 0 ? target : [...(target instanceof Array ? target : [target]), ...args] as TySpec);
+        }
+        if (head instanceof InlineSpec) {
+            return Maybe.some([head, this.inlineSpecAsSpec(head), args]);
+        }
+        const found = this.specs.getBestAndRestWithPath(flattenTySpec(resolvedSpec)).map(x => {
             const [path, foundSpec, rest] = x;
             const [specMatch, args] = groupingStartAndEnd(tySpecAsGroupedBase(resolvedSpec), path, rest);
-            return [(specMatch.length > 1 ? specMatch : specMatch[0]) as TySpec, foundSpec, args as TySpec[]];
+            return [(specMatch.length > 1 ? specMatch : specMatch[0]) as TySpec, foundSpec, args as TySpec[]] as [TySpec, Spec<any>, TySpec[]];
         });
+        // literals match themselves, unless a specifier has been added for them (as for 'null')
+        if (found.isNone() && isLiteral(head)) {
+            return Maybe.some([head, this.inlineSpecAsSpec(enumOf(head)), args]);
+        }
+        return found;
     }
 
     private mostSpecificDescription(spec: TySpec): Maybe<[TySpec, DescriptionFn, TySpec[]]> {
@@ -754,14 +2139,30 @@ export class Schemas {
         }
     }
 
+    /**
+     * Describe a specification. A specification met again while it is
+     * being described (as for recursive specifications) is described
+     * by name only, or as "..." if it has no name.
+     */
     getDescription(spec: TySpec): string {
-        return this.mostSpecificDescription(spec).maybef(() => {
-            if (spec instanceof Array) {
-                return `[${spec.map(t => this.getDescription(t)).join(', ')}]`;
-            } else {
-                return tySpecBaseDescription(spec);
-            }
-        }, c => c[1](...c[2]));
+        if (spec instanceof LazySpec) {
+            return spec.name ?? this.getDescription(spec.resolve());
+        }
+        if (Schemas.describing.some(t => sameTySpec(t, spec))) {
+            return spec instanceof Array || spec instanceof InlineSpec ? '...' : Schemas._getDescriptionBase(spec);
+        }
+        Schemas.describing.push(spec);
+        try {
+            return this.mostSpecificDescription(spec).maybef(() => {
+                if (spec instanceof Array) {
+                    return `[${spec.map(t => this.getDescription(t)).join(', ')}]`;
+                } else {
+                    return tySpecBaseDescription(spec);
+                }
+            }, c => c[1](...c[2]));
+        } finally {
+            Schemas.describing.pop();
+        }
     }
 
     protected getSpecMap(): NestMap<TySpecBase, Spec<any>> {
@@ -782,6 +2183,29 @@ export class Schemas {
         return new Schemas();
     }
 
+    /**
+     * Make schemas for classes decorated with {@link jsonClass}. Each
+     * class is read from an object with a key for each field decorated
+     * with {@link field}, by constructing the class with no arguments
+     * and then assigning the fields. Fields left out because they are
+     * {@link optional} keep the value given by the constructor.
+     */
+    static fromClasses(...classes: (new () => object)[]): Schemas {
+        const schemas = new Schemas();
+        for (const cls of classes) {
+            const ks = jsonClassKeys.get(cls);
+            if (ks === undefined) {
+                throw new TypeError(`${cls.name} cannot be used with fromClasses as it is not decorated with @jsonClass`);
+            }
+            schemas.addSpec(cls, {
+                description: getDesc => () => `${cls.name}: ${JsonSchema.describeKeys(ks, getDesc)}`,
+                load: JsonSchema.objectSchema(ks, o => Object.assign(new cls(), o)),
+                dump: JsonDumper.objectDumper(ks),
+            });
+        }
+        return schemas;
+    }
+
     /** Merge schemas into a new schema, favouring definitions in latter schemas if there is overlap. */
     static mergeSchemas(...schemas: Schemas[]): Schemas {
         const newSchemas = new Schemas();
@@ -800,6 +2224,64 @@ export class Schemas {
     }
 }
 
+/** What the field decorators have recorded about a field. */
+type FieldInfo = { spec: Maybe<TySpec>, optional: boolean };
+
+const fieldInfoKey = Symbol("fieldInfo");
+
+/** Keys of the classes decorated with {@link jsonClass}. */
+const jsonClassKeys = new WeakMap<abstract new (...args: any) => any, ObjectKeySpecs>();
+
+/** Field information recorded in decorator metadata, including that of superclasses. */
+function fieldInfo(metadata: DecoratorMetadataObject): Map<string, FieldInfo> {
+    if (!Object.prototype.hasOwnProperty.call(metadata, fieldInfoKey)) {
+        const inherited = metadata[fieldInfoKey] as Map<string, FieldInfo> | undefined;
+        metadata[fieldInfoKey] = new Map(inherited);
+    }
+    return metadata[fieldInfoKey] as Map<string, FieldInfo>;
+}
+
+function updateFieldInfo(context: ClassFieldDecoratorContext, update: (info: FieldInfo) => FieldInfo): void {
+    const name = context.name;
+    if (typeof name !== 'string' || context.private || context.static) {
+        throw new TypeError(`field decorators can only be used on public instance fields with string names, but were used on ${String(name)}`);
+    }
+    const infos = fieldInfo(context.metadata);
+    infos.set(name, update(infos.get(name) ?? { spec: Maybe.none(), optional: false }));
+}
+
+/**
+ * Decorator recording that a field is read with 'spec', for use with
+ * {@link jsonClass}, e.g., '@field(Number) age: number'.
+ */
+export function field<const S extends TySpec>(spec: S) {
+    return function <This, V extends SpecResult<S> | undefined>(_value: undefined, context: ClassFieldDecoratorContext<This, V>): void {
+        updateFieldInfo(context, info => ({ ...info, spec: Maybe.some(spec) }));
+    };
+}
+
+/** Decorator recording that a field decorated with {@link field} may be left out. */
+export function optional<This, V>(_value: undefined, context: ClassFieldDecoratorContext<This, V>): void {
+    updateFieldInfo(context, info => ({ ...info, optional: true }));
+}
+
+/**
+ * Class decorator recording the fields decorated with {@link field}
+ * (including those of superclasses), so that the class can be given
+ * to {@link Schemas.fromClasses}.
+ */
+export function jsonClass<C extends new () => object>(cls: C, context: ClassDecoratorContext<C>): void {
+    const ks: StringKeyed<TySpec | KeySpec> = {};
+    for (const [name, info] of fieldInfo(context.metadata)) {
+        if (info.spec.isNone()) {
+            throw new TypeError(`the field ${JSON.stringify(name)} of ${cls.name} is optional, but has no specification given by @field`);
+        }
+        const spec = info.spec.unwrap();
+        ks[name] = info.optional ? JsonSchema.optional(spec) : spec;
+    }
+    jsonClassKeys.set(cls, ks);
+}
+
 function mapToObject<T>(m: Map<string, T>): { [k: string]: T } {
     const res: { [k: string]: T } = {};
     for (const [k, v] of m) {
@@ -811,62 +2293,617 @@ function mapToObject<T>(m: Map<string, T>): { [k: string]: T } {
 /** Matches if any of the specifications match. Matches with the first matching specification. */
 export const anyOf = Symbol("anyOf");
 
+/**
+ * [allOf, t1, ..., tn] matches an object that matches all of the
+ * specifications, with the keys of their results merged into a
+ * single object. A key read by any of the specifications is not
+ * unknown to the others.
+ */
+export const allOf = Symbol("allOf");
+
 /** [tuple, t1, ..., tn] matches an array of length n whose ith element matches ti. */
 export const tuple = Symbol("tuple");
 
+/**
+ * [mapEntries, k, v] matches an array of [key, value] pairs, whose
+ * keys match k and values match v, as a Map.
+ */
+export const mapEntries = Symbol("mapEntries");
+
+/** A value that can be used as a specification matching only itself. */
+type Literal = string | number | boolean | null;
+
+function isLiteral(x: unknown): x is Literal {
+    return x === null || typeof x === 'string' || typeof x === 'number' || typeof x === 'boolean';
+}
+
+/** The values of a TypeScript enum, leaving out the reverse mappings of numeric enums. */
+function enumValues(e: StringKeyed<string | number>): (string | number)[] {
+    return Object.keys(e).filter(k => !(typeof e[k] === 'string' && e[e[k]] === Number(k))).map(k => e[k]);
+}
+
+/**
+ * Matches any of the given values, e.g., 'enumOf("debug", "info")'.
+ *
+ * A TypeScript enum may be given instead, in which case the values of
+ * its members are matched.
+ */
+export function enumOf<const T extends Literal[]>(...values: T): InlineSpec<T[number]>;
+export function enumOf<E extends StringKeyed<string | number>>(enumObject: E): InlineSpec<E[keyof E]>;
+export function enumOf(...args: (Literal | StringKeyed<string | number>)[]): InlineSpec {
+    const first = args[0];
+    const values = args.length === 1 && typeof first === 'object' && first !== null ? enumValues(first) : args as Literal[];
+    const description = values.length === 1 ? renderJsValue(values[0]) : `one of ${values.map(renderJsValue).join(', ')}`;
+    return new InlineSpec({
+        description: _ => description,
+        load: JsonSchema.customSchema(allSchemasSame((parser, json) => {
+            const value = json.unwrap();
+            return values.includes(value as Literal) ? JsonParser.parseOk(value) : parser.failWithUnexpectedValue(values);
+        })),
+        dump: JsonDumper.customDumper((parser, value) =>
+            values.includes(value as Literal) ? JsonParser.parseOk(value as Literal) : parser.failWithUnexpectedValue(values))
+    });
+}
+
+/**
+ * Matches an object whose 'tagKey' key holds one of the keys of
+ * 'branches', by matching the whole object (including the tag) with
+ * the specification for that key. For example,
+ * 'taggedUnion("type", { circle: Circle, square: Square })'.
+ *
+ * Errors come only from the selected specification, and unknown tags
+ * are reported with the list of known ones.
+ */
+export function taggedUnion<const B extends StringKeyed<TySpec>>(tagKey: string, branches: B): InlineSpec<{ [k in keyof B]: SpecResult<B[k]> }[keyof B]> {
+    const tags = Object.keys(branches);
+    const tagSpec = enumOf(...tags);
+    return new InlineSpec({
+        description: getDesc => `union tagged by ${JSON.stringify(tagKey)}: ${tags.map(t => `${JSON.stringify(t)} (${getDesc(branches[t])})`).join(', ')}`,
+        load: JsonSchema.customSchema({
+            onObject: (parser, json) => {
+                const obj = json.unwrap();
+                if (!Object.prototype.hasOwnProperty.call(obj, tagKey)) {
+                    return parser.failWithMissingKeys([tagKey]);
+                }
+                return parser.loadKeyAs(tagKey, obj[tagKey], tagSpec).mapCollecting(tag => parser.loadAs(json, branches[tag]));
+            }
+        }),
+        dump: JsonDumper.guarded((x: unknown): x is StringKeyed<unknown> => typeof x === 'object' && x !== null && !Array.isArray(x),
+            JsonDumper.customDumper((parser, value) =>
+                parser.dumpKeyAs(tagKey, value[tagKey], tagSpec).mapCollecting(tag => parser.dumpAs(value, branches[tag as string]))))
+    });
+}
+
+/**
+ * Matches what the specification returned by 'getSpec' matches, calling
+ * 'getSpec' only when the specification is used. This allows
+ * specifications to refer to themselves or to specifications defined
+ * later, e.g.,
+ * 'const expr: InlineSpec<Expr> = taggedUnion("op", { neg: lazy(() => expr), ... })'.
+ *
+ * If 'name' is given, it is used as the description, otherwise
+ * recursive uses are described as "...".
+ */
+export function lazy<const S extends TySpec>(getSpec: () => S, name?: string): LazySpec<SpecResult<S>> {
+    return new LazySpec(getSpec, name);
+}
+
+/**
+ * Matches a string that is a URL, which may be relative to 'base',
+ * e.g., 'relativeURL("https://example.com/docs/")'.
+ */
+export function relativeURL(base: string | URL): InlineSpec<URL> {
+    const baseURL = new URL(base);
+    return new InlineSpec({
+        description: _ => `URL relative to ${baseURL.href}`,
+        load: urlSchema(baseURL),
+        dump: urlDumper
+    });
+}
+
+/** Matches a number of milliseconds since the Unix epoch, as a {@link Date}. */
+export const epochMillis = typedSpec<Date>("epochMillis");
+
+/** Matches a number of seconds since the Unix epoch, as a {@link Date}. */
+export const epochSeconds = typedSpec<Date>("epochSeconds");
+
+/**
+ * Matches a number (or a string containing one), and gives the number
+ * as it was written, e.g., "0.1000000000000000055", so that no
+ * digits are lost. Written back as a string.
+ */
+export const decimalString = typedSpec<string>("decimalString");
+
+/**
+ * Matches a number that can be read as a JavaScript number without
+ * losing any of its digits, e.g., "0.5" but not "9007199254740993".
+ */
+export const exactNumber = typedSpec<number>("exactNumber");
+
+/** Matches a number that is an integer. */
+export const integer = typedSpec<number>("integer");
+
+/*
+ * The specifiers below give 'InlineSpec<NoInfer<SpecResult<S>>>', as
+ * otherwise TypeScript before 6.0 infers 'S' from the specification
+ * the result is used in, giving 'any' for arguments such as
+ * '[Array, Number]'.
+ */
+
+function refinement<T>(spec: TySpec, predicate: (x: any) => boolean, constraint: string): InlineSpec<T> {
+    return new InlineSpec({
+        description: getDesc => `${getDesc(spec)}, ${constraint}`,
+        load: JsonSchema.customSchema(allSchemasSame((parser, json) =>
+            parser.loadAs(json, spec).mapCollecting(x => predicate(x) ? JsonParser.parseOk(x) : parser.failWithConstraint(constraint)))),
+        dump: JsonDumper.customDumper((parser, value) =>
+            parser.dumpAs(value, spec).mapCollecting(r => predicate(value) ? JsonParser.parseOk(r) : parser.failWithConstraint(constraint)))
+    });
+}
+
+/**
+ * Matches what 'spec' matches, provided that 'predicate' holds for
+ * the result. 'description' names the constraint, e.g., "even",
+ * and is used in descriptions and errors.
+ */
+export function refine<const S extends TySpec>(spec: S, predicate: (x: SpecResult<S>) => boolean, description: string): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec, predicate, description);
+}
+
+/** Matches a number (or what 'spec' matches) that is at least 'n'. */
+export function min<const S extends TySpec = NumberConstructor>(n: number, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? Number : spec, (x: number) => x >= n, `at least ${n}`);
+}
+
+/** Matches a number (or what 'spec' matches) that is at most 'n'. */
+export function max<const S extends TySpec = NumberConstructor>(n: number, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? Number : spec, (x: number) => x <= n, `at most ${n}`);
+}
+
+/**
+ * The number as an integer and a power of ten to divide it by,
+ * using the shortest decimal that reads as the number (e.g., [7n, 2]
+ * for 0.07), or undefined if it is not finite.
+ */
+function decimalParts(n: number): [bigint, number] | undefined {
+    const m = /^(-?)(\d+)(?:\.(\d+))?(?:e([+-]\d+))?$/.exec(String(n));
+    if (m === null) {
+        return undefined;
+    }
+    const [, sign, whole, fraction = '', exponent = '0'] = m;
+    const scale = fraction.length - Number(exponent);
+    const digits = BigInt(sign + whole + fraction);
+    return scale >= 0 ? [digits, scale] : [digits * 10n ** BigInt(-scale), 0];
+}
+
+/**
+ * True if 'x' is a multiple of 'n', comparing them as the decimals
+ * they are written as, so that, e.g., 0.3 is a multiple of 0.1.
+ */
+function isMultipleOf(x: number, n: number): boolean {
+    const xParts = decimalParts(x);
+    const nParts = decimalParts(n);
+    if (xParts === undefined || nParts === undefined || nParts[0] === 0n) {
+        return false;
+    }
+    const scale = Math.max(xParts[1], nParts[1]);
+    return (xParts[0] * 10n ** BigInt(scale - xParts[1])) % (nParts[0] * 10n ** BigInt(scale - nParts[1])) === 0n;
+}
+
+/**
+ * Matches a number (or what 'spec' matches) that is a multiple of
+ * 'n'. Numbers are compared as decimals, so 'multipleOf(0.01)'
+ * matches amounts of money such as 0.07.
+ */
+export function multipleOf<const S extends TySpec = NumberConstructor>(n: number, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? Number : spec, (x: number) => isMultipleOf(x, n), `multiple of ${n}`);
+}
+
+/** Matches a string (or what 'spec' matches, e.g., an array) whose length is at least 'n'. */
+export function minLength<const S extends TySpec = StringConstructor>(n: number, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? String : spec, (x: { length: number }) => x.length >= n, `length at least ${n}`);
+}
+
+/** Matches a string (or what 'spec' matches, e.g., an array) whose length is at most 'n'. */
+export function maxLength<const S extends TySpec = StringConstructor>(n: number, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? String : spec, (x: { length: number }) => x.length <= n, `length at most ${n}`);
+}
+
+/** Matches a string (or what 'spec' matches) in which 're' finds a match. */
+export function pattern<const S extends TySpec = StringConstructor>(re: RegExp, spec?: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    return refinement(spec === undefined ? String : spec, (x: string) => x.search(re) !== -1, `matches ${re}`);
+}
+
+/**
+ * Matches what 'spec' matches, with the result converted by 'f',
+ * e.g., 'transform(String, s => s.trim())'. If 'f' throws, the error
+ * is reported as a {@link JsonParser.TransformError}. Values are
+ * written by converting them back with 'inverse', if given; otherwise
+ * they cannot be written.
+ */
+export function transform<const S extends TySpec, T>(spec: S, f: (x: SpecResult<S>) => T, inverse?: (x: T) => SpecResult<S>): InlineSpec<T> {
+    return new InlineSpec({
+        description: getDesc => getDesc(spec),
+        load: JsonSchema.customSchema(allSchemasSame((parser, json) =>
+            parser.loadAs(json, spec).mapCollecting(x => parser.tryTransform(() => f(x)))), parser => parser.getKnownKeys(spec)),
+        dump: inverse === undefined ? undefined : JsonDumper.customDumper((parser, value: T) =>
+            parser.tryTransform(() => inverse(value)).mapCollecting(x => parser.dumpAs(x, spec)))
+    });
+}
+
+/**
+ * Matches what 'spec' matches, with the result converted by each of
+ * the functions in turn, as for {@link transform}.
+ */
+export function pipe<const S extends TySpec, A>(spec: S, f1: (x: SpecResult<S>) => A): InlineSpec<A>;
+export function pipe<const S extends TySpec, A, B>(spec: S, f1: (x: SpecResult<S>) => A, f2: (x: A) => B): InlineSpec<B>;
+export function pipe<const S extends TySpec, A, B, C>(spec: S, f1: (x: SpecResult<S>) => A, f2: (x: A) => B, f3: (x: B) => C): InlineSpec<C>;
+export function pipe<const S extends TySpec, A, B, C, D>(spec: S, f1: (x: SpecResult<S>) => A, f2: (x: A) => B, f3: (x: B) => C, f4: (x: C) => D): InlineSpec<D>;
+export function pipe(spec: TySpec, ...fs: ((x: any) => any)[]): InlineSpec {
+    return transform(spec, x => fs.reduce((acc, f) => f(acc), x));
+}
+
+/**
+ * Matches what 'spec' matches after the JSON value has been
+ * converted by 'f', e.g., to accept a single value where 'spec'
+ * expects an array. If 'f' throws, or does not give a JSON value,
+ * the error is reported as a {@link JsonParser.TransformError}.
+ * Values are written with 'spec'.
+ *
+ * Each value is only converted once, so that reading it again (e.g.,
+ * on another pass of {@link JsonParser.parseAsAsync}) reads the same
+ * converted value. Keys of an object known to the other members of
+ * an {@link allOf} stay known in the converted object.
+ */
+export function preprocess<const S extends TySpec>(f: (x: JsonValueRaw) => JsonValueRaw, spec: S): InlineSpec<NoInfer<SpecResult<S>>> {
+    const converted = new WeakMap<JsonValue, JsonValue>();
+    const convert = (parser: JsonParser, json: JsonValue): JsonParseResult<JsonValue> => {
+        const known = converted.get(json);
+        if (known !== undefined) {
+            return JsonParser.parseOk(known);
+        }
+        return parser.tryTransform(() => f(json.unwrapFully())).mapCollecting(x => toJsonValue(x).either(
+            e => parser.failWithTransformError(e.message, e),
+            v => {
+                converted.set(json, v);
+                return JsonParser.parseOk(v);
+            }));
+    };
+    return new InlineSpec({
+        description: getDesc => getDesc(spec),
+        load: JsonSchema.customSchema(allSchemasSame((parser, json) =>
+            convert(parser, json).mapCollecting(v => json.isObject() && v.isObject()
+                ? parser.withKeysKnownElsewhere(v, Object.keys(json.unwrap()).filter(k => parser.isKeyKnownElsewhere(json, k)), () => parser.loadAs(v, spec))
+                : parser.loadAs(v, spec))), parser => parser.getKnownKeys(spec)),
+        dump: JsonDumper.customDumper((parser, value) => parser.dumpAs(value, spec))
+    });
+}
+
+function primitiveDumper(tyName: 'boolean' | 'number' | 'string'): JsonDumper<any> {
+    return JsonDumper.guarded((x: unknown): x is JsonValueRaw => typeof x === tyName && isJsonValueRaw(x),
+        JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x)));
+}
+
+const datePattern = /^(\d{4})-(\d{2})-(\d{2})(?:[Tt ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:[Zz]|[+-](\d{2}):(\d{2}))?)?$/;
+
+/**
+ * Read an ISO 8601 date (e.g., "2021-12-31") or date-time (e.g.,
+ * "2021-12-31T23:59:59Z"), as written by TOML or
+ * {@link Date.prototype.toISOString}.
+ *
+ * As with {@link Date.parse}, dates without a time are in UTC,
+ * and date-times without an offset are in local time.
+ */
+function parseIsoDate(s: string): Maybe<Date> {
+    const m = datePattern.exec(s);
+    if (m === null) {
+        return Maybe.none();
+    }
+    const [year, month, day, hour, minute, second, offsetHour, offsetMinute] = m.slice(1).map(x => x === undefined ? 0 : Number(x));
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)
+        || hour > 23 || minute > 59 || second > 59 || offsetHour > 23 || offsetMinute > 59) {
+        return Maybe.none();
+    }
+    return Maybe.some(new Date(s.replace(' ', 'T').toUpperCase()));
+}
+
+/** A number as written in JSON. */
+const decimalPattern = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?$/;
+
+/** The significant digits of a number, e.g., "15" for "-0.0150e3". */
+function significantDigits(text: string): string {
+    return text.replace(/[eE].*$/, '').replace(/[-+.]/g, '').replace(/^0+/, '').replace(/0+$/, '');
+}
+
+/** True if the number written as 'text' is not the same as 'n', which it was read as. */
+function losesPrecision(text: string, n: number): boolean {
+    return !Number.isFinite(n) || significantDigits(text) !== significantDigits(n.toExponential());
+}
+
+/** Matches a number of 'unit' milliseconds since the Unix epoch, as a {@link Date}. */
+function epochSchema(unit: number): JsonSchema<Date> {
+    return JsonSchema.customSchema({
+        onNumber: (parser, json) => {
+            const d = new Date(json.unwrap() * unit);
+            return isNaN(d.getTime()) ? parser.failWithTypeError('number that is out of range for a date') : JsonParser.parseOk(d);
+        }
+    });
+}
+
+function epochDumper(unit: number): JsonDumper<Date> {
+    return JsonDumper.guarded((x: unknown): x is Date => x instanceof Date && !isNaN(x.getTime()),
+        JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x.getTime() / unit)));
+}
+
+function urlSchema(base?: string | URL): JsonSchema<URL> {
+    return JsonSchema.customSchema({
+        onString: (parser, json) => {
+            try {
+                return JsonParser.parseOk(new URL(json.unwrap(), base));
+            } catch (_) {
+                return parser.failWithTypeError(base === undefined ? 'string that is not an absolute URL' : 'string that is not a URL');
+            }
+        }
+    });
+}
+
+const urlDumper: JsonDumper<URL> = JsonDumper.guarded((x: unknown): x is URL => x instanceof URL,
+    JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x.href)));
+
+/** Matches an object as a Map, reading each key name with 'k' and each value with 'v'. */
+function mapSchema(k: TySpec, v: TySpec): JsonSchema<Map<any, any>> {
+    return JsonSchema.customSchema({
+        onObject: (parser, json) => {
+            const res = new Map<any, any>();
+            const errs: JsonParseError[] = [];
+            const obj = json.unwrap();
+            for (const key in obj) {
+                const name = parser.loadKeyNameAs(key, k);
+                const loaded = name.mapCollecting(_ => parser.loadKeyAs(key, obj[key], v));
+                if (loaded.isLeft()) {
+                    if (!parser.isCollectingErrors()) {
+                        return loaded.propLeft();
+                    }
+                    errs.push(loaded.unwrapLeft());
+                    continue;
+                }
+                res.set(name.unwrapRight(), loaded.unwrapRight());
+            }
+            if (isNonEmptyArray(errs)) {
+                return parser.failWithErrors(errs);
+            }
+            return JsonParser.parseOk(res);
+        }
+    });
+}
+
+function mapDumper(k: TySpec, v: TySpec): JsonDumper<Map<unknown, unknown>> {
+    return JsonDumper.guarded((x: unknown): x is Map<unknown, unknown> => x instanceof Map,
+        JsonDumper.customDumper((parser, m) => {
+            const res: StringKeyed<JsonValueRaw> = {};
+            for (const [key, value] of m) {
+                const name = parser.dumpKeyNameAs(key, k);
+                const dumped = name.mapCollecting(n => parser.dumpKeyAs(n, value, v));
+                if (dumped.isLeft()) {
+                    return dumped.propLeft();
+                }
+                res[name.unwrapRight()] = dumped.unwrapRight();
+            }
+            return JsonParser.parseOk(res);
+        }));
+}
+
 function defaultSchema(): Schemas {
     return Schemas.emptySchemas()
+        .addSpec(allOf, {
+            description: getDesc => (...tys) => 'all of: ' + tys.map(getDesc).join(', '),
+            load: (...tys) => new JsonSchema({
+                onObject: (parser, json) => {
+                    const keys = tys.map(ty => parser.getKnownKeys(ty));
+                    const res = {};
+                    const errs: JsonParseError[] = [];
+                    for (let i = 0; i < tys.length; i++) {
+                        const otherKeys = keys.filter((_, j) => j !== i).flat();
+                        const loaded = parser.withKeysKnownElsewhere(json, otherKeys, () => parser.loadAs(json, tys[i]));
+                        if (loaded.isLeft()) {
+                            if (!parser.isCollectingErrors()) {
+                                return loaded;
+                            }
+                            errs.push(loaded.unwrapLeft());
+                            continue;
+                        }
+                        Object.assign(res, loaded.unwrapRight());
+                    }
+                    if (isNonEmptyArray(errs)) {
+                        return parser.failWithErrors(errs);
+                    }
+                    return JsonParser.parseOk(res);
+                }
+            }, parser => tys.flatMap(ty => parser.getKnownKeys(ty))),
+            dump: (...tys) => JsonDumper.customDumper((parser, value) => {
+                const res: StringKeyed<JsonValueRaw> = {};
+                for (const ty of tys) {
+                    const dumped = parser.dumpAs(value, ty);
+                    if (dumped.isLeft()) {
+                        return dumped;
+                    }
+                    const obj = dumped.unwrapRight();
+                    if (!isPlainObject(obj)) {
+                        return parser.failWithTypeError(`value written as ${jsTypeDescription(obj)} by ${parser._getDescriptionForSpec(ty)}`);
+                    }
+                    Object.assign(res, obj);
+                }
+                return JsonParser.parseOk(res);
+            })
+        })
         .addSpec(anyOf, {
             load: (...tys) => JsonSchema.customSchema(allSchemasSame(
                 (parser, json) => {
+                    const errs: JsonParseError[] = [];
                     for (const ty of tys) {
                         const res = parser.loadAs(json, ty);
                         if (res.isRight()) {
                             return res;
                         }
+                        errs.push(res.unwrapLeft());
                     }
-                    return parser.failWithTypeError(json.getType());
-                }))
+                    return isNonEmptyArray(errs) ? parser.failWithNoMatchingAlternative(errs) : parser.failWithTypeError(json.getType());
+                }), parser => tys.flatMap(ty => parser.getKnownKeys(ty))),
+            dump: (...tys) => JsonDumper.customDumper((parser, value) => {
+                const errs: JsonParseError[] = [];
+                for (const ty of tys) {
+                    const res = parser.dumpAs(value, ty);
+                    if (res.isRight()) {
+                        return res;
+                    }
+                    errs.push(res.unwrapLeft());
+                }
+                return isNonEmptyArray(errs) ? parser.failWithNoMatchingAlternative(errs) : parser.failWithTypeError(jsTypeDescription(value));
+            })
         })
         .addSpec(AnyTy, {
             description: 'anything',
-            load: () => JsonSchema.customSchema(allSchemasSame((_parser, json) => JsonParser.parseOk(json.unwrapFully())))
+            load: () => JsonSchema.customSchema(allSchemasSame((_parser, json) => JsonParser.parseOk(json.unwrapFully()))),
+            dump: () => JsonDumper.guarded(isJsonValueRaw, JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x)))
         })
         .addSpec(Array, {
             maxArgs: 1,
             description: getDesc => (t = AnyTy) => 'Array of ' + getDesc(t),
-            load: (t: TySpec = AnyTy) => JsonSchema.arraySchema(t, r => r)
+            load: (t: TySpec = AnyTy) => JsonSchema.arraySchema(t, r => r),
+            dump: (t: TySpec = AnyTy) => JsonDumper.guarded(Array.isArray, JsonDumper.arrayDumper(t, r => r))
+        })
+        .addSpec(BigInt, {
+            description: 'big integer',
+            load: JsonSchema.customSchema({
+                onNumber: (parser, json) => {
+                    const n = json.unwrap();
+                    const text = json.getNumberText();
+                    if (text.isSome() && /^-?\d+$/.test(text.unwrap())) {
+                        return JsonParser.parseOk(BigInt(text.unwrap()));
+                    }
+                    if (!Number.isInteger(n)) {
+                        return parser.failWithTypeError('number that is not an integer');
+                    }
+                    return Number.isSafeInteger(n) ? JsonParser.parseOk(BigInt(n)) : parser.failWithTypeError('number that is too large to read exactly (use a string instead)');
+                },
+                onString: (parser, json) => {
+                    const str = json.unwrap();
+                    return /^[+-]?\d+$/.test(str) ? JsonParser.parseOk(BigInt(str)) : parser.failWithTypeError('string that is not an integer');
+                }
+            }),
+            dump: JsonDumper.guarded((x: unknown): x is bigint => typeof x === 'bigint',
+                JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x.toString())))
         })
         .addSpec(Boolean, {
             description: 'boolean',
-            load: JsonSchema.booleanSchema(x => x)
+            load: JsonSchema.booleanSchema(x => x),
+            dump: primitiveDumper('boolean')
         })
-        .addSpec([Map, String], {
-            maxArgs: 1,
-            description: getDesc => (t = AnyTy) => "Map with string keys and values matching " + getDesc(t),
-            load: (t = AnyTy) => JsonSchema.objectSchemaMap(_ => t, r => r)
+        .addSpec(Date, {
+            description: 'date',
+            load: JsonSchema.customSchema({
+                onString: (parser, json) => parseIsoDate(json.unwrap()).maybef(
+                    () => parser.failWithTypeError('string that is not an ISO 8601 date'),
+                    d => JsonParser.parseOk(d))
+            }),
+            dump: JsonDumper.guarded((x: unknown): x is Date => x instanceof Date && !isNaN(x.getTime()),
+                JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x.toISOString())))
+        })
+        .addSpec(decimalString, {
+            description: 'decimal number',
+            load: JsonSchema.customSchema({
+                onNumber: (parser, json) => json.getNumberText().maybef(() => {
+                    const n = json.unwrap();
+                    return Number.isFinite(n) ? JsonParser.parseOk(String(n)) : parser.failWithTypeError('number that is not finite');
+                }, text => JsonParser.parseOk(text)),
+                onString: (parser, json) => decimalPattern.test(json.unwrap())
+                    ? JsonParser.parseOk(json.unwrap()) : parser.failWithTypeError('string that is not a decimal number')
+            }),
+            dump: JsonDumper.guarded((x: unknown): x is string => typeof x === 'string' && decimalPattern.test(x),
+                JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x)))
+        })
+        .addSpec(epochMillis, {
+            description: 'date as milliseconds since the epoch',
+            load: epochSchema(1),
+            dump: epochDumper(1)
+        })
+        .addSpec(epochSeconds, {
+            description: 'date as seconds since the epoch',
+            load: epochSchema(1000),
+            dump: epochDumper(1000)
+        })
+        .addSpec(exactNumber, {
+            description: 'number (without loss of precision)',
+            load: JsonSchema.customSchema({
+                onNumber: (parser, json) => {
+                    const n = json.unwrap();
+                    return json.getNumberText().maybe(false, text => losesPrecision(text, n))
+                        ? parser.failWithTypeError('number that cannot be read without losing precision')
+                        : JsonParser.parseOk(n);
+                }
+            }),
+            dump: primitiveDumper('number')
+        })
+        .addSpec(integer, {
+            description: 'integer',
+            load: JsonSchema.customSchema({
+                onNumber: (parser, json) => Number.isInteger(json.unwrap()) ? JsonParser.parseOk(json.unwrap()) : parser.failWithConstraint('integer')
+            }),
+            dump: JsonDumper.guarded((x: unknown): x is number => typeof x === 'number',
+                JsonDumper.customDumper((parser, x) => Number.isInteger(x) ? JsonParser.parseOk(x) : parser.failWithConstraint('integer')))
+        })
+        .addSpec(Map, {
+            maxArgs: 2,
+            description: getDesc => (k = String, v = AnyTy) => `Map with ${getDesc(k)} keys and values matching ${getDesc(v)}`,
+            load: (k = String, v = AnyTy) => mapSchema(k, v),
+            dump: (k = String, v = AnyTy) => mapDumper(k, v)
+        })
+        .addSpec(mapEntries, {
+            maxArgs: 2,
+            description: getDesc => (k = AnyTy, v = AnyTy) => `Map (as [key, value] pairs) with ${getDesc(k)} keys and values matching ${getDesc(v)}`,
+            load: (k = AnyTy, v = AnyTy) => JsonSchema.arraySchema([tuple, k, v], r => new Map(r)),
+            dump: (k = AnyTy, v = AnyTy) => JsonDumper.guarded((x: unknown): x is Map<unknown, unknown> => x instanceof Map,
+                JsonDumper.arrayDumper([tuple, k, v], r => Array.from(r)))
         })
-        .addAlias(Map, [Map, String])
         .addSpec(null, {
             description: 'null',
-            load: JsonSchema.nullSchema(x => x)
+            load: JsonSchema.nullSchema(x => x),
+            dump: JsonDumper.guarded((x: unknown): x is null => x === null, JsonDumper.customDumper((_parser, x) => JsonParser.parseOk(x)))
         })
         .addSpec(Number, {
             description: 'number',
-            load: JsonSchema.numberSchema(x => x)
+            load: JsonSchema.numberSchema(x => x),
+            dump: primitiveDumper('number')
         })
         .addSpec(Object, {
             maxArgs: 1,
             description: getDesc => (t = AnyTy) => 'Object whose values are ' + getDesc(t),
-            load: (t = AnyTy) => JsonSchema.objectSchemaMap(_ => t, r => mapToObject(r))
+            load: (t = AnyTy) => JsonSchema.objectSchemaMap(_ => t, r => mapToObject(r)),
+            dump: (t = AnyTy) => JsonDumper.guarded(isPlainObject, JsonDumper.objectMapDumper(_ => t, r => new Map(Object.entries(r))))
+        })
+        .addSpec(RegExp, {
+            description: 'regular expression',
+            load: JsonSchema.customSchema({
+                onString: (parser, json) => {
+                    try {
+                        return JsonParser.parseOk(new RegExp(json.unwrap()));
+                    } catch (e) {
+                        const reason = e instanceof SyntaxError ? e.message.replace(/^.*: /, '') : String(e);
+                        return parser.failWithTypeError(`string that is not a valid regular expression (${reason})`);
+                    }
+                }
+            }),
+            dump: JsonDumper.guarded((x: unknown): x is RegExp => x instanceof RegExp,
+                JsonDumper.customDumper((parser, x) => x.flags === '' ? JsonParser.parseOk(x.source) : parser.failWithTypeError('regular expression with flags')))
         })
         .addSpec(Set, {
             maxArgs: 1,
             load: (t = AnyTy) => JsonSchema.arraySchema(t, r => new Set(r)),
+            dump: (t = AnyTy) => JsonDumper.guarded((x: unknown): x is Set<any> => x instanceof Set, JsonDumper.arrayDumper(t, r => Array.from(r)))
         })
         .addSpec(String, {
             description: 'string',
-            load: JsonSchema.stringSchema(x => x)
+            load: JsonSchema.stringSchema(x => x),
+            dump: primitiveDumper('string')
         })
         .addSpec(tuple, {
             load: (...tys) => JsonSchema.customSchema({
@@ -876,30 +2913,151 @@ function defaultSchema(): Schemas {
                         return parser.failWithTypeError(`array of length ${arr.length}`);
                     }
                     const res = [];
+                    const errs: JsonParseError[] = [];
                     for (let i = 0; i < arr.length; i++) {
-                        const loaded = parser.loadAs(arr[i], tys[i]);
+                        const loaded = parser.loadIndexAs(i, arr[i], tys[i]);
                         if (loaded.isLeft()) {
-                            return loaded;
+                            if (!parser.isCollectingErrors()) {
+                                return loaded;
+                            }
+                            errs.push(loaded.unwrapLeft());
                         } else {
                             res[i] = loaded.unwrapRight();
                         }
                     }
+                    if (isNonEmptyArray(errs)) {
+                        return parser.failWithErrors(errs);
+                    }
                     return Either.right(res);
                 }
-            })
+            }),
+            dump: (...tys) => JsonDumper.guarded(Array.isArray, JsonDumper.customDumper((parser, arr: any[]) => {
+                if (arr.length !== tys.length) {
+                    return parser.failWithTypeError(`array of length ${arr.length}`);
+                }
+                const res: JsonValueRaw[] = [];
+                for (let i = 0; i < arr.length; i++) {
+                    const dumped = parser.dumpIndexAs(i, arr[i], tys[i]);
+                    if (dumped.isLeft()) {
+                        return dumped;
+                    }
+                    res[i] = dumped.unwrapRight();
+                }
+                return JsonParser.parseOk(res);
+            }))
+        })
+        .addSpec(URL, {
+            description: 'URL',
+            load: urlSchema(),
+            dump: urlDumper
         })
 }
 
-/** Type-like specification for how to read from JSON. Includes constructors and additional types like 'null' and {@link AnyTy} */
-type TySpecBase = symbol | null | Constructor
+/**
+ * Type-like specification for how to read from JSON. Includes
+ * constructors, additional types like {@link AnyTy}, and literal
+ * values such as 'null' or '"debug"', which match only themselves.
+ */
+type TySpecBase = symbol | Literal | Constructor | BigIntConstructor | InlineSpec | LazySpec
 export type TySpec = TySpecBase | [TySpecBase, ...TySpec[]];
 
+declare const specResultType: unique symbol;
+
+/**
+ * A symbol for use as a specifier, which records the type of value
+ * it loads so that {@link SpecResult} can find it. Create one with
+ * {@link typedSpec}.
+ */
+export type TypedSpec<T> = symbol & { readonly [specResultType]: T };
+
+/**
+ * Make a new symbol for use as a specifier that loads values of type
+ * 'T'. {@link Schemas.addSpec} then checks that the loader for the
+ * symbol produces values of this type.
+ */
+export function typedSpec<T>(description?: string): TypedSpec<T> {
+    return Symbol(description) as TypedSpec<T>;
+}
+
+type SpecBaseResult<S> =
+    S extends Literal ? S
+    : S extends typeof AnyTy ? JsonValueRaw
+    : S extends TypedSpec<infer T> ? T
+    : S extends InlineSpec<infer T> ? T
+    : S extends LazySpec<infer T> ? T
+    : S extends BigIntConstructor ? bigint
+    : S extends BooleanConstructor ? boolean
+    : S extends NumberConstructor ? number
+    : S extends StringConstructor ? string
+    : S extends ArrayConstructor ? JsonValueRaw[]
+    : S extends MapConstructor ? Map<string, JsonValueRaw>
+    : S extends typeof mapEntries ? Map<JsonValueRaw, JsonValueRaw>
+    : S extends SetConstructor ? Set<JsonValueRaw>
+    : S extends ObjectConstructor ? StringKeyed<JsonValueRaw>
+    : S extends abstract new (...args: any) => infer I ? I
+    : any;
+
+type SpecArgsResult<H, Args extends TySpec[]> =
+    Args extends [] ? SpecBaseResult<H>
+    : H extends typeof allOf ? Flatten<AllOfResult<Args>>
+    : H extends typeof anyOf ? SpecResult<Args[number]>
+    : H extends typeof tuple ? { [i in keyof Args]: SpecResult<Args[i]> }
+    : H extends TypedSpec<infer T> ? T
+    : H extends ArrayConstructor ? SpecResult<Args[0]>[]
+    : H extends MapConstructor ? Map<SpecResult<Args[0]>, Args extends [TySpec, infer V] ? SpecResult<V> : JsonValueRaw>
+    : H extends typeof mapEntries ? Map<SpecResult<Args[0]>, Args extends [TySpec, infer V] ? SpecResult<V> : JsonValueRaw>
+    : H extends SetConstructor ? Set<SpecResult<Args[0]>>
+    : H extends ObjectConstructor ? StringKeyed<SpecResult<Args[0]>>
+    : SpecBaseResult<H>;
+
+type AllOfResult<Args> = Args extends [infer S, ...infer Rest] ? SpecResult<S> & AllOfResult<Rest> : unknown;
+
+/**
+ * The type of value loaded for the specification 'S', e.g., 'number[]'
+ * for '[Array, Number]', or the instance type for a class.
+ *
+ * Symbols are only understood if they are builtin specifiers or were
+ * made with {@link typedSpec}; anything not understood gives 'any'.
+ */
+export type SpecResult<S> =
+    S extends [infer H, ...infer Args extends TySpec[]] ? SpecArgsResult<H, Args> : SpecBaseResult<S>;
+
+/** Show an intersection of object types as a single object type. */
+type Flatten<T> = { [k in keyof T]: T[k] };
+
+type KeyResult<F> = F extends KeySpec<infer T, boolean> ? T : SpecResult<F>;
+
+type OptionalKeys<K> = { [k in keyof K]: K[k] extends KeySpec<any, true> ? k : never }[keyof K];
+
+/** The keys 'K' with those of 'K2', which replace any with the same name. */
+type Extended<K, K2> = Flatten<Omit<K, keyof K2> & K2>;
+
+/** The keys 'K', all of which may be left out. */
+type PartialKeys<K> = { [k in keyof K]: KeySpec<KeyResult<K[k]>, true> };
+
+/** The keys 'K', all of which must be present. */
+type RequiredKeys<K> = { [k in keyof K]: KeySpec<KeyResult<K[k]>, false> };
+
+/**
+ * The type of object loaded by {@link JsonSchema.objectSchema} for the
+ * keys 'K'. Keys specified with {@link JsonSchema.optional} are
+ * optional.
+ */
+export type ObjectResult<K extends ObjectKeySpecs> =
+    Flatten<{ [k in Exclude<keyof K, OptionalKeys<K>>]: KeyResult<K[k]> } & { [k in OptionalKeys<K>]?: KeyResult<K[k]> }>;
+
 function tySpecBaseDescription(t: TySpecBase): string {
     if (typeof t === 'symbol') {
         return t.toString();
     }
-    if (t === null) {
-        return 'null'
+    if (isLiteral(t)) {
+        return renderJsValue(t);
+    }
+    if (t instanceof InlineSpec) {
+        return t.description(tySpecDescription);
+    }
+    if (t instanceof LazySpec) {
+        return t.name ?? '...';
     }
     return t.name;
 }
@@ -0,0 +1,437 @@
+import { Either } from './deps.ts';
+
+import {
+    describePosition,
+    GenJsonValue,
+    jsonNumberText,
+    JsonValue,
+    Source,
+    SourcePosition,
+} from './value.ts';
+
+/** An error encountered when reading text, such as a syntax error. */
+export class ReadError extends Error {
+    readonly source: Source;
+    readonly position: SourcePosition;
+    readonly reason: string;
+
+    constructor(source: Source, position: SourcePosition, reason: string) {
+        super(`${reason} (at ${describePosition(source, position)})`);
+        this.source = source;
+        this.position = position;
+        this.reason = reason;
+    }
+}
+
+/**
+ * The flavour of JSON to accept.
+ *
+ * - 'json' is strict JSON, as described by RFC 8259
+ * - 'jsonc' is JSON with comments ('//' and '/* ... *\/') and
+ *   trailing commas in arrays and objects, as used by tsconfig.json
+ * - 'json5' is JSON5 (https://spec.json5.org), which adds to
+ *   'jsonc' unquoted keys, single-quoted strings, more escapes,
+ *   hexadecimal numbers, 'Infinity' and 'NaN', and numbers with
+ *   an explicit '+' sign or leading or trailing decimal point
+ */
+export type JsonDialect = 'json' | 'jsonc' | 'json5';
+
+export interface ReadOptions {
+    /** Name used to refer to the text in messages (e.g., a file path). */
+    name?: string;
+    /** Defaults to 'json'. */
+    dialect?: JsonDialect;
+}
+
+export function describeChar(c: string | undefined): string {
+    return c === undefined ? 'the end of the input' : JSON.stringify(c);
+}
+
+function isDigit(c: string | undefined): boolean {
+    return c !== undefined && c >= '0' && c <= '9';
+}
+
+function isHexDigit(c: string | undefined): boolean {
+    return c !== undefined && /[0-9a-fA-F]/.test(c);
+}
+
+function isJson5Whitespace(c: string | undefined): boolean {
+    return c !== undefined && /[\v\f\u00A0\uFEFF\u2028\u2029\p{Zs}]/u.test(c);
+}
+
+function isIdentifierStart(c: string | undefined): boolean {
+    return c !== undefined && /[\p{L}\p{Nl}$_]/u.test(c);
+}
+
+function isIdentifierPart(c: string | undefined): boolean {
+    return c !== undefined && /[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200C\u200D]/u.test(c);
+}
+
+/** Reads JSON text into JSON values, keeping track of where each value came from. */
+class JsonReader {
+    private source: Source;
+    private dialect: JsonDialect;
+    private text: string;
+    private offset: number;
+    private line: number;
+    private column: number;
+
+    constructor(source: Source, dialect: JsonDialect) {
+        this.source = source;
+        this.dialect = dialect;
+        this.text = source.text;
+        this.offset = 0;
+        this.line = 1;
+        this.column = 1;
+    }
+
+    private position(): SourcePosition {
+        return { offset: this.offset, line: this.line, column: this.column };
+    }
+
+    private fail(reason: string, pos: SourcePosition = this.position()): never {
+        throw new ReadError(this.source, pos, reason);
+    }
+
+    private failUnexpected(expected: string): never {
+        return this.fail(`expected ${expected} but saw ${describeChar(this.peek())}`);
+    }
+
+    private peek(n = 0): string | undefined {
+        return this.offset + n < this.text.length ? this.text[this.offset + n] : undefined;
+    }
+
+    private advance(): string {
+        const c = this.text[this.offset++];
+        if (c === '\n' || c === '\r' && this.peek() !== '\n') {
+            this.line++;
+            this.column = 1;
+        } else {
+            this.column++;
+        }
+        return c;
+    }
+
+    private expect(c: string, expected = JSON.stringify(c)) {
+        if (this.peek() !== c) {
+            this.failUnexpected(expected);
+        }
+        this.advance();
+    }
+
+    private expectWord(word: string) {
+        const start = this.position();
+        for (const c of word) {
+            if (this.peek() !== c) {
+                this.fail(`expected ${JSON.stringify(word)} but saw ${describeChar(this.peek())}`, start);
+            }
+            this.advance();
+        }
+    }
+
+    private isJson5(): boolean {
+        return this.dialect === 'json5';
+    }
+
+    /** True if comments and trailing commas are allowed. */
+    private isRelaxed(): boolean {
+        return this.dialect !== 'json';
+    }
+
+    private skipWhitespace() {
+        while (true) {
+            const c = this.peek();
+            if (c === ' ' || c === '\t' || c === '\n' || c === '\r' || this.isJson5() && isJson5Whitespace(c)) {
+                this.advance();
+            } else if (c === '/' && this.isRelaxed() && this.peek(1) === '/') {
+                while (this.peek() !== undefined && this.peek() !== '\n' && this.peek() !== '\r') {
+                    this.advance();
+                }
+            } else if (c === '/' && this.isRelaxed() && this.peek(1) === '*') {
+                const start = this.position();
+                this.advance();
+                this.advance();
+                while (!(this.peek() === '*' && this.peek(1) === '/')) {
+                    if (this.peek() === undefined) {
+                        this.fail('unterminated comment', start);
+                    }
+                    this.advance();
+                }
+                this.advance();
+                this.advance();
+            } else {
+                return;
+            }
+        }
+    }
+
+    private span(start: SourcePosition) {
+        return { source: this.source, start, end: this.position() };
+    }
+
+    /** Read the entire text as a single value. */
+    readDocument(): JsonValue {
+        this.skipWhitespace();
+        const res = this.readValue();
+        this.skipWhitespace();
+        if (this.peek() !== undefined) {
+            this.failUnexpected('the end of the input');
+        }
+        return res;
+    }
+
+    private readValue(): JsonValue {
+        const start = this.position();
+        const c = this.peek();
+        if (c === '{') {
+            return this.readObject();
+        } else if (c === '[') {
+            return this.readArray();
+        } else if (c === '"' || c === "'" && this.isJson5()) {
+            return GenJsonValue.jsonString(this.readString(), this.span(start));
+        } else if (c === '-' || isDigit(c) || this.isJson5() && (c === '+' || c === '.' || c === 'I' || c === 'N')) {
+            const [n, text] = this.readNumber();
+            return GenJsonValue.jsonNumber(n, this.span(start), text);
+        } else if (c === 't') {
+            this.expectWord('true');
+            return GenJsonValue.jsonBoolean(true, this.span(start));
+        } else if (c === 'f') {
+            this.expectWord('false');
+            return GenJsonValue.jsonBoolean(false, this.span(start));
+        } else if (c === 'n') {
+            this.expectWord('null');
+            return GenJsonValue.jsonNull(this.span(start));
+        }
+        return this.failUnexpected('a value');
+    }
+
+    private readObject(): JsonValue {
+        const start = this.position();
+        const res: { [k: string]: JsonValue } = {};
+        this.expect('{');
+        this.skipWhitespace();
+        if (this.peek() === '}') {
+            this.advance();
+            return GenJsonValue.jsonObject(res, this.span(start));
+        }
+        while (true) {
+            this.skipWhitespace();
+            if (this.peek() === '}' && this.isRelaxed()) {
+                this.advance();
+                return GenJsonValue.jsonObject(res, this.span(start));
+            }
+            const k = this.readKey();
+            this.skipWhitespace();
+            this.expect(':');
+            this.skipWhitespace();
+            // defined rather than assigned so that keys like "__proto__" are treated as normal keys
+            Object.defineProperty(res, k, { value: this.readValue(), enumerable: true, writable: true, configurable: true });
+            this.skipWhitespace();
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() === '}') {
+                this.advance();
+                return GenJsonValue.jsonObject(res, this.span(start));
+            } else {
+                this.failUnexpected('"," or "}"');
+            }
+        }
+    }
+
+    private readArray(): JsonValue {
+        const start = this.position();
+        const res: JsonValue[] = [];
+        this.expect('[');
+        this.skipWhitespace();
+        if (this.peek() === ']') {
+            this.advance();
+            return GenJsonValue.jsonArray(res, this.span(start));
+        }
+        while (true) {
+            this.skipWhitespace();
+            if (this.peek() === ']' && this.isRelaxed()) {
+                this.advance();
+                return GenJsonValue.jsonArray(res, this.span(start));
+            }
+            res.push(this.readValue());
+            this.skipWhitespace();
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() === ']') {
+                this.advance();
+                return GenJsonValue.jsonArray(res, this.span(start));
+            } else {
+                this.failUnexpected('"," or "]"');
+            }
+        }
+    }
+
+    private readKey(): string {
+        const c = this.peek();
+        if (c === '"' || c === "'" && this.isJson5()) {
+            return this.readString();
+        } else if (!this.isJson5()) {
+            return this.failUnexpected('a string key');
+        } else if (!isIdentifierStart(c)) {
+            return this.failUnexpected('a key');
+        }
+        let res = this.advance();
+        while (isIdentifierPart(this.peek())) {
+            res += this.advance();
+        }
+        return res;
+    }
+
+    private readString(): string {
+        const start = this.position();
+        const quote = this.advance();
+        let res = '';
+        while (true) {
+            const c = this.peek();
+            if (c === undefined) {
+                this.fail('unterminated string', start);
+            } else if (c === quote) {
+                this.advance();
+                return res;
+            } else if (c === '\\') {
+                res += this.readEscape();
+            } else if (this.isJson5() ? c === '\n' || c === '\r' : c < ' ') {
+                this.fail(`control characters must be escaped in strings, but saw ${JSON.stringify(c)}`);
+            } else {
+                res += this.advance();
+            }
+        }
+    }
+
+    private readEscape(): string {
+        const start = this.position();
+        this.expect('\\');
+        const c = this.peek();
+        const simple: { [k: string]: string } = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+        if (c !== undefined && Object.prototype.hasOwnProperty.call(simple, c)) {
+            this.advance();
+            return simple[c];
+        } else if (c === 'u') {
+            this.advance();
+            return String.fromCharCode(this.readHexDigits(4));
+        } else if (this.isJson5()) {
+            return this.readJson5Escape(start);
+        }
+        return this.fail(`invalid escape sequence ${JSON.stringify('\\' + (c === undefined ? '' : c))}`, start);
+    }
+
+    /** Escapes that are only allowed in JSON5 (the leading backslash has already been read). */
+    private readJson5Escape(start: SourcePosition): string {
+        const c = this.peek();
+        if (c === 'x') {
+            this.advance();
+            return String.fromCharCode(this.readHexDigits(2));
+        } else if (c === '0' && !isDigit(this.peek(1))) {
+            this.advance();
+            return '\0';
+        } else if (c === 'v') {
+            this.advance();
+            return '\v';
+        } else if (c === '\r' || c === '\n' || c === '\u2028' || c === '\u2029') {
+            // an escaped line terminator continues the string on the next line
+            this.advance();
+            if (c === '\r' && this.peek() === '\n') {
+                this.advance();
+            }
+            return '';
+        } else if (c !== undefined && !isDigit(c)) {
+            return this.advance();
+        }
+        return this.fail(`invalid escape sequence ${JSON.stringify('\\' + (c === undefined ? '' : c))}`, start);
+    }
+
+    private readHexDigits(n: number): number {
+        let hex = '';
+        for (let i = 0; i < n; i++) {
+            if (!isHexDigit(this.peek())) {
+                this.failUnexpected('a hexadecimal digit');
+            }
+            hex += this.advance();
+        }
+        return parseInt(hex, 16);
+    }
+
+    private readDigits() {
+        if (!isDigit(this.peek())) {
+            this.failUnexpected('a digit');
+        }
+        while (isDigit(this.peek())) {
+            this.advance();
+        }
+    }
+
+    /** Read a number, and its text in the decimal form used by JSON if it is finite. */
+    private readNumber(): [number, string | undefined] {
+        const start = this.offset;
+        const sign = this.peek() === '-' ? -1 : 1;
+        if (this.peek() === '-' || this.peek() === '+' && this.isJson5()) {
+            this.advance();
+        }
+        if (this.isJson5()) {
+            if (this.peek() === 'I') {
+                this.expectWord('Infinity');
+                return [sign * Infinity, undefined];
+            } else if (this.peek() === 'N') {
+                this.expectWord('NaN');
+                return [NaN, undefined];
+            } else if (this.peek() === '0' && (this.peek(1) === 'x' || this.peek(1) === 'X')) {
+                this.advance();
+                this.advance();
+                if (!isHexDigit(this.peek())) {
+                    this.failUnexpected('a hexadecimal digit');
+                }
+                while (isHexDigit(this.peek())) {
+                    this.advance();
+                }
+                const magnitude = BigInt(this.text.slice(start, this.offset).replace(/^[-+]/, ''));
+                return [sign * Number(magnitude), (sign < 0 ? '-' : '') + magnitude.toString()];
+            }
+        }
+        // JSON5 allows the integer part to be left out (e.g., ".5")
+        const hasIntegerPart = !(this.isJson5() && this.peek() === '.');
+        if (hasIntegerPart && this.peek() === '0') {
+            this.advance();
+            if (isDigit(this.peek())) {
+                this.fail('numbers cannot have leading zeroes');
+            }
+        } else if (hasIntegerPart) {
+            this.readDigits();
+        }
+        if (this.peek() === '.') {
+            this.advance();
+            // JSON5 allows the fractional part to be left out (e.g., "5.")
+            if (!hasIntegerPart || !this.isJson5() || isDigit(this.peek())) {
+                this.readDigits();
+            }
+        }
+        if (this.peek() === 'e' || this.peek() === 'E') {
+            this.advance();
+            if (this.peek() === '+' || this.peek() === '-') {
+                this.advance();
+            }
+            this.readDigits();
+        }
+        const text = this.text.slice(start, this.offset);
+        return [Number(text), jsonNumberText(text)];
+    }
+}
+
+/**
+ * Read JSON text into a JSON value, where each value remembers the
+ * region of the text it was read from.
+ */
+export function readJson(text: string, opts: ReadOptions = {}): Either<ReadError, JsonValue> {
+    try {
+        return Either.right(new JsonReader({ name: opts.name, text }, opts.dialect !== undefined ? opts.dialect : 'json').readDocument());
+    } catch (e) {
+        if (e instanceof ReadError) {
+            return Either.left(e);
+        }
+        throw e;
+    }
+}
@@ -0,0 +1,654 @@
+import { Either } from './deps.ts';
+
+import {
+    JsonParser,
+    JsonParseResult,
+} from './json.ts';
+
+import { describeChar, ReadError } from './reader.ts';
+
+import { daysInMonth } from './util.ts';
+
+import {
+    GenJsonValue,
+    jsonNumberText,
+    JsonValue,
+    Source,
+    SourcePosition,
+    SourceSpan,
+} from './value.ts';
+
+/**
+ * How a table came to exist, which determines how it may be added
+ * to later.
+ *
+ * - 'implicit' tables were created as the parent of another table
+ *   (e.g., 'a' in '[a.b]'), and may later be defined by a header
+ * - 'header' tables were defined by a header (e.g., '[a]')
+ * - 'dotted' tables were created by a dotted key (e.g., 'a' in
+ *   'a.b = 1'), and may only have keys added by other dotted keys
+ */
+type TableKind = 'implicit' | 'header' | 'dotted';
+
+interface Table {
+    type: 'table';
+    kind: TableKind;
+    entries: Map<string, TomlNode>;
+    span: SourceSpan;
+}
+
+/** An array of tables, defined by headers like '[[a]]'. */
+interface TableArray {
+    type: 'tableArray';
+    tables: Table[];
+    span: SourceSpan;
+}
+
+/** A value given by a key-value pair, which cannot be added to. */
+interface Value {
+    type: 'value';
+    value: JsonValue;
+}
+
+type TomlNode = Table | TableArray | Value;
+
+/** A (possibly dotted) key. */
+interface Key {
+    names: string[];
+    spans: SourceSpan[];
+}
+
+const decimalPattern = /^[+-]?(?:0|[1-9](?:_?[0-9])*)$/;
+const hexPattern = /^0x[0-9a-fA-F](?:_?[0-9a-fA-F])*$/;
+const octalPattern = /^0o[0-7](?:_?[0-7])*$/;
+const binaryPattern = /^0b[01](?:_?[01])*$/;
+const floatPattern = /^[+-]?(?:0|[1-9](?:_?[0-9])*)(?:\.[0-9](?:_?[0-9])*)?(?:[eE][+-]?[0-9](?:_?[0-9])*)?$/;
+const specialFloatPattern = /^[+-]?(?:inf|nan)$/;
+const dateTimePattern = /^(\d{4})-(\d{2})-(\d{2})(?:[Tt](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:[Zz]|[+-](\d{2}):(\d{2}))?)?$/;
+const timePattern = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?$/;
+
+const escapes: { [k: string]: string } = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+function isBreak(c: string | undefined): boolean {
+    return c === '\n' || c === '\r';
+}
+
+function isBlank(c: string | undefined): boolean {
+    return c === ' ' || c === '\t';
+}
+
+function isDigit(c: string | undefined): boolean {
+    return c !== undefined && c >= '0' && c <= '9';
+}
+
+function isBareKeyChar(c: string | undefined): boolean {
+    return c !== undefined && /[A-Za-z0-9_-]/.test(c);
+}
+
+function isControlChar(c: string): boolean {
+    return c < ' ' && c !== '\t' || c === '\x7f';
+}
+
+/** The key as it would be written in TOML, e.g., 'a."b c".d'. */
+function describeKey(names: string[]): string {
+    return names.map(n => /^[A-Za-z0-9_-]+$/.test(n) ? n : JSON.stringify(n)).join('.');
+}
+
+function isValidTime(hour: number, minute: number, second: number): boolean {
+    // a second of 60 allows for leap seconds
+    return hour < 24 && minute < 60 && second <= 60;
+}
+
+/** Reads TOML text into JSON values, keeping track of where each value came from. */
+class TomlReader {
+    private source: Source;
+    private text: string;
+    private offset: number;
+    private line: number;
+    private column: number;
+
+    constructor(source: Source) {
+        this.source = source;
+        this.text = source.text;
+        this.offset = 0;
+        this.line = 1;
+        this.column = 1;
+    }
+
+    private position(): SourcePosition {
+        return { offset: this.offset, line: this.line, column: this.column };
+    }
+
+    private fail(reason: string, pos: SourcePosition = this.position()): never {
+        throw new ReadError(this.source, pos, reason);
+    }
+
+    private failUnexpected(expected: string): never {
+        return this.fail(`expected ${expected} but saw ${describeChar(this.peek())}`);
+    }
+
+    private peek(n = 0): string | undefined {
+        return this.offset + n < this.text.length ? this.text[this.offset + n] : undefined;
+    }
+
+    private advance(): string {
+        const c = this.text[this.offset++];
+        if (c === '\n' || c === '\r' && this.peek() !== '\n') {
+            this.line++;
+            this.column = 1;
+        } else {
+            this.column++;
+        }
+        return c;
+    }
+
+    private advanceBreak() {
+        if (this.peek() === '\r') {
+            this.advance();
+        }
+        if (this.peek() === '\n') {
+            this.advance();
+        }
+    }
+
+    private expect(c: string) {
+        if (this.peek() !== c) {
+            this.failUnexpected(JSON.stringify(c));
+        }
+        this.advance();
+    }
+
+    private span(start: SourcePosition, end: SourcePosition = this.position()): SourceSpan {
+        return { source: this.source, start, end };
+    }
+
+    private skipBlanks() {
+        while (isBlank(this.peek())) {
+            this.advance();
+        }
+    }
+
+    private skipComment() {
+        while (this.peek() !== undefined && !isBreak(this.peek())) {
+            if (isControlChar(this.peek() as string)) {
+                this.fail(`control characters are not allowed in comments, but saw ${JSON.stringify(this.peek())}`);
+            }
+            this.advance();
+        }
+    }
+
+    /** Skip whitespace, line breaks and comments, as allowed between the elements of an array. */
+    private skipWhitespaceAndComments() {
+        while (true) {
+            this.skipBlanks();
+            if (this.peek() === '#') {
+                this.skipComment();
+            }
+            if (!isBreak(this.peek())) {
+                return;
+            }
+            this.advanceBreak();
+        }
+    }
+
+    /** Skip the rest of the current line, which may only contain whitespace and a comment. */
+    private endLine() {
+        this.skipBlanks();
+        if (this.peek() === '#') {
+            this.skipComment();
+        }
+        if (this.peek() !== undefined && !isBreak(this.peek())) {
+            this.failUnexpected('the end of the line');
+        }
+    }
+
+    private newTable(kind: TableKind, span: SourceSpan): Table {
+        return { type: 'table', kind, entries: new Map(), span };
+    }
+
+    /** Read the entire text as a table. */
+    readDocument(): JsonValue {
+        if (this.peek() === '\uFEFF') {
+            this.advance();
+        }
+        const start = this.position();
+        const root = this.newTable('header', this.span(start, start));
+        let current = root;
+        while (this.peek() !== undefined) {
+            this.skipBlanks();
+            const c = this.peek();
+            if (c === '#') {
+                this.skipComment();
+            } else if (isBreak(c)) {
+                this.advanceBreak();
+            } else if (c === '[' && this.peek(1) === '[') {
+                current = this.readTableArrayHeader(root);
+                this.endLine();
+            } else if (c === '[') {
+                current = this.readTableHeader(root);
+                this.endLine();
+            } else if (c !== undefined) {
+                this.readKeyValue(current);
+                this.endLine();
+            }
+        }
+        return tableToJson(root, this.span(start));
+    }
+
+    /** Find the table that the last name of a header key belongs to, creating tables as needed. */
+    private findParentTable(root: Table, key: Key): Table {
+        let table = root;
+        for (let i = 0; i < key.names.length - 1; i++) {
+            const node = table.entries.get(key.names[i]);
+            if (node === undefined) {
+                const t = this.newTable('implicit', key.spans[i]);
+                table.entries.set(key.names[i], t);
+                table = t;
+            } else if (node.type === 'table') {
+                table = node;
+            } else if (node.type === 'tableArray') {
+                table = node.tables[node.tables.length - 1];
+            } else {
+                this.fail(`${describeKey(key.names.slice(0, i + 1))} is not a table`, key.spans[i].start);
+            }
+        }
+        return table;
+    }
+
+    /** Read a header like '[a.b]', returning the table it defines. */
+    private readTableHeader(root: Table): Table {
+        const start = this.position();
+        this.advance();
+        const key = this.readKey();
+        this.expect(']');
+        const parent = this.findParentTable(root, key);
+        const name = key.names[key.names.length - 1];
+        const node = parent.entries.get(name);
+        if (node === undefined) {
+            const table = this.newTable('header', this.span(start));
+            parent.entries.set(name, table);
+            return table;
+        } else if (node.type === 'table' && node.kind === 'implicit') {
+            node.kind = 'header';
+            node.span = this.span(start);
+            return node;
+        }
+        return this.fail(`${describeKey(key.names)} is already defined`, start);
+    }
+
+    /** Read a header like '[[a.b]]', returning the new table it adds to the array. */
+    private readTableArrayHeader(root: Table): Table {
+        const start = this.position();
+        this.advance();
+        this.advance();
+        const key = this.readKey();
+        this.expect(']');
+        this.expect(']');
+        const parent = this.findParentTable(root, key);
+        const name = key.names[key.names.length - 1];
+        const node = parent.entries.get(name);
+        const table = this.newTable('header', this.span(start));
+        if (node === undefined) {
+            parent.entries.set(name, { type: 'tableArray', tables: [table], span: this.span(start) });
+        } else if (node.type === 'tableArray') {
+            node.tables.push(table);
+        } else {
+            this.fail(`${describeKey(key.names)} is already defined, and is not an array of tables`, start);
+        }
+        return table;
+    }
+
+    private readKey(): Key {
+        const res: Key = { names: [], spans: [] };
+        while (true) {
+            this.skipBlanks();
+            const start = this.position();
+            const c = this.peek();
+            let name = '';
+            if (c === '"') {
+                name = this.readBasicString();
+            } else if (c === "'") {
+                name = this.readLiteralString();
+            } else if (isBareKeyChar(c)) {
+                while (isBareKeyChar(this.peek())) {
+                    name += this.advance();
+                }
+            } else {
+                this.failUnexpected('a key');
+            }
+            res.names.push(name);
+            res.spans.push(this.span(start));
+            this.skipBlanks();
+            if (this.peek() !== '.') {
+                return res;
+            }
+            this.advance();
+        }
+    }
+
+    private readKeyValue(table: Table) {
+        const key = this.readKey();
+        this.expect('=');
+        this.skipBlanks();
+        this.setValue(table, key, this.readValue());
+    }
+
+    /** Set the value of a (possibly dotted) key in the table, creating tables for dotted keys as needed. */
+    private setValue(table: Table, key: Key, value: JsonValue) {
+        for (let i = 0; i < key.names.length - 1; i++) {
+            const node = table.entries.get(key.names[i]);
+            if (node === undefined) {
+                const t = this.newTable('dotted', key.spans[i]);
+                table.entries.set(key.names[i], t);
+                table = t;
+            } else if (node.type === 'table' && node.kind === 'dotted') {
+                table = node;
+            } else {
+                this.fail(`${describeKey(key.names.slice(0, i + 1))} is already defined, and cannot be added to with a dotted key`, key.spans[i].start);
+            }
+        }
+        const name = key.names[key.names.length - 1];
+        if (table.entries.has(name)) {
+            this.fail(`${describeKey(key.names)} is already defined`, key.spans[key.spans.length - 1].start);
+        }
+        table.entries.set(name, { type: 'value', value });
+    }
+
+    private readValue(): JsonValue {
+        const start = this.position();
+        const c = this.peek();
+        if (c === '"') {
+            return GenJsonValue.jsonString(this.readBasicString(true), this.span(start));
+        } else if (c === "'") {
+            return GenJsonValue.jsonString(this.readLiteralString(true), this.span(start));
+        } else if (c === '[') {
+            return this.readArray();
+        } else if (c === '{') {
+            return this.readInlineTable();
+        } else if (c === 't' || c === 'f') {
+            const word = c === 't' ? 'true' : 'false';
+            for (const wc of word) {
+                if (this.peek() !== wc) {
+                    this.fail(`expected ${JSON.stringify(word)} but saw ${describeChar(this.peek())}`, start);
+                }
+                this.advance();
+            }
+            return GenJsonValue.jsonBoolean(c === 't', this.span(start));
+        } else if (c !== undefined && /[0-9+\-in]/.test(c)) {
+            return this.readNumberOrDateTime();
+        }
+        return this.failUnexpected('a value');
+    }
+
+    private readArray(): JsonValue {
+        const start = this.position();
+        const res: JsonValue[] = [];
+        this.advance();
+        while (true) {
+            this.skipWhitespaceAndComments();
+            if (this.peek() === ']') {
+                break;
+            }
+            res.push(this.readValue());
+            this.skipWhitespaceAndComments();
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() !== ']') {
+                this.failUnexpected('"," or "]"');
+            }
+        }
+        this.advance();
+        return GenJsonValue.jsonArray(res, this.span(start));
+    }
+
+    /** Read an inline table (e.g., '{ a = 1, b.c = 2 }'), which must be on a single line. */
+    private readInlineTable(): JsonValue {
+        const start = this.position();
+        const table = this.newTable('dotted', this.span(start));
+        this.advance();
+        this.skipBlanks();
+        if (this.peek() === '}') {
+            this.advance();
+            return tableToJson(table, this.span(start));
+        }
+        while (true) {
+            this.readKeyValue(table);
+            this.skipBlanks();
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() === '}') {
+                this.advance();
+                return tableToJson(table, this.span(start));
+            } else {
+                this.failUnexpected('"," or "}"');
+            }
+        }
+    }
+
+    /** Read a basic string (e.g., "a\tb"), which may be a multi-line string (e.g., """a\nb""") if 'allowMultiline' is true. */
+    private readBasicString(allowMultiline = false): string {
+        const start = this.position();
+        const multiline = allowMultiline && this.text.startsWith('"""', this.offset);
+        this.skipOpeningQuotes(multiline);
+        let res = '';
+        while (true) {
+            const c = this.peek();
+            if (c === undefined || isBreak(c) && !multiline) {
+                this.fail('unterminated string', start);
+            } else if (c === '"') {
+                const closing = this.readClosingQuotes(multiline);
+                if (closing !== undefined) {
+                    return res + closing;
+                }
+                res += this.advance();
+            } else if (c === '\\' && multiline && this.atLineEndingBackslash()) {
+                // a backslash at the end of a line removes the line break and any following whitespace
+                this.advance();
+                while (isBlank(this.peek()) || isBreak(this.peek())) {
+                    this.advance();
+                }
+            } else if (c === '\\') {
+                res += this.readEscape();
+            } else if (isBreak(c)) {
+                this.advanceBreak();
+                res += '\n';
+            } else if (isControlChar(c)) {
+                this.fail(`control characters must be escaped in strings, but saw ${JSON.stringify(c)}`);
+            } else {
+                res += this.advance();
+            }
+        }
+    }
+
+    /** Read a literal string (e.g., 'a\b'), which may be a multi-line string (e.g., '''a\nb''') if 'allowMultiline' is true. */
+    private readLiteralString(allowMultiline = false): string {
+        const start = this.position();
+        const multiline = allowMultiline && this.text.startsWith("'''", this.offset);
+        this.skipOpeningQuotes(multiline);
+        let res = '';
+        while (true) {
+            const c = this.peek();
+            if (c === undefined || isBreak(c) && !multiline) {
+                this.fail('unterminated string', start);
+            } else if (c === "'") {
+                const closing = this.readClosingQuotes(multiline);
+                if (closing !== undefined) {
+                    return res + closing;
+                }
+                res += this.advance();
+            } else if (isBreak(c)) {
+                this.advanceBreak();
+                res += '\n';
+            } else if (isControlChar(c)) {
+                this.fail(`control characters are not allowed in literal strings, but saw ${JSON.stringify(c)}`);
+            } else {
+                res += this.advance();
+            }
+        }
+    }
+
+    private skipOpeningQuotes(multiline: boolean) {
+        this.advance();
+        if (multiline) {
+            this.advance();
+            this.advance();
+            // a line break straight after the opening quotes is not part of the string
+            this.advanceBreak();
+        }
+    }
+
+    /**
+     * If the reader is at the closing quotes of a string, skip them
+     * and return any quotes that are part of the string instead (up
+     * to two quotes may come before the closing quotes of a
+     * multi-line string).
+     */
+    private readClosingQuotes(multiline: boolean): string | undefined {
+        const quote = this.peek() as string;
+        if (!multiline) {
+            this.advance();
+            return '';
+        }
+        let n = 0;
+        while (this.peek(n) === quote) {
+            n++;
+        }
+        if (n < 3) {
+            return undefined;
+        } else if (n > 5) {
+            this.fail(`too many quotes at the end of a multi-line string`);
+        }
+        for (let i = 0; i < n; i++) {
+            this.advance();
+        }
+        return quote.repeat(n - 3);
+    }
+
+    private atLineEndingBackslash(): boolean {
+        let i = 1;
+        while (isBlank(this.peek(i))) {
+            i++;
+        }
+        return isBreak(this.peek(i));
+    }
+
+    private readEscape(): string {
+        const start = this.position();
+        this.advance();
+        const c = this.peek();
+        if (c !== undefined && Object.prototype.hasOwnProperty.call(escapes, c)) {
+            this.advance();
+            return escapes[c];
+        } else if (c === 'u' || c === 'U') {
+            this.advance();
+            let hex = '';
+            for (let i = 0; i < (c === 'u' ? 4 : 8); i++) {
+                if (this.peek() === undefined || !/[0-9a-fA-F]/.test(this.peek() as string)) {
+                    this.failUnexpected('a hexadecimal digit');
+                }
+                hex += this.advance();
+            }
+            const code = parseInt(hex, 16);
+            if (code > 0x10FFFF || code >= 0xD800 && code <= 0xDFFF) {
+                this.fail(`${JSON.stringify('\\' + c + hex)} is not a valid Unicode character`, start);
+            }
+            return String.fromCodePoint(code);
+        }
+        return this.fail(`invalid escape sequence ${JSON.stringify('\\' + (c === undefined ? '' : c))}`, start);
+    }
+
+    /**
+     * Read a number, date or time.
+     *
+     * Dates and times are read as strings in RFC 3339 format, with
+     * 'T' separating the date and time.
+     */
+    private readNumberOrDateTime(): JsonValue {
+        const start = this.position();
+        let token = this.readToken();
+        if (/^\d{4}-\d{2}-\d{2}$/.test(token) && this.peek() === ' ' && isDigit(this.peek(1)) && isDigit(this.peek(2)) && this.peek(3) === ':') {
+            // the date and time may be separated by a space
+            this.advance();
+            token += 'T' + this.readToken();
+        }
+        const clean = token.replace(/_/g, '');
+        if (decimalPattern.test(token) || hexPattern.test(token) || octalPattern.test(token) || binaryPattern.test(token)) {
+            const n = BigInt(clean.replace(/^\+/, ''));
+            if (n < -(2n ** 63n) || n >= 2n ** 63n) {
+                this.fail(`${token} is outside the range of a 64-bit integer`, start);
+            }
+            return GenJsonValue.jsonNumber(Number(n), this.span(start), n.toString());
+        } else if (floatPattern.test(token)) {
+            return GenJsonValue.jsonNumber(Number(clean), this.span(start), jsonNumberText(clean));
+        } else if (specialFloatPattern.test(token)) {
+            return GenJsonValue.jsonNumber(token.endsWith('nan') ? NaN : token[0] === '-' ? -Infinity : Infinity, this.span(start));
+        }
+        const dateTime = dateTimePattern.exec(token);
+        const time = timePattern.exec(token);
+        if (dateTime !== null) {
+            const [year, month, day, hour, minute, second, offsetHour, offsetMinute] = dateTime.slice(1).map(x => x === undefined ? 0 : Number(x));
+            if (month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+                && isValidTime(hour, minute, second) && offsetHour < 24 && offsetMinute < 60) {
+                return GenJsonValue.jsonString(token.toUpperCase(), this.span(start));
+            }
+        } else if (time !== null && isValidTime(Number(time[1]), Number(time[2]), Number(time[3]))) {
+            return GenJsonValue.jsonString(token, this.span(start));
+        }
+        return this.fail(`${JSON.stringify(token)} is not a valid ${/^\d{4}-|:/.test(token) ? 'date or time' : 'number'}`, start);
+    }
+
+    private readToken(): string {
+        let res = '';
+        while (this.peek() !== undefined && /[0-9A-Za-z_+\-.:]/.test(this.peek() as string)) {
+            res += this.advance();
+        }
+        return res;
+    }
+}
+
+function tableToJson(table: Table, span: SourceSpan = table.span): JsonValue {
+    const res: { [k: string]: JsonValue } = {};
+    for (const [k, node] of table.entries) {
+        // defined rather than assigned so that keys like "__proto__" are treated as normal keys
+        Object.defineProperty(res, k, { value: nodeToJson(node), enumerable: true, writable: true, configurable: true });
+    }
+    return GenJsonValue.jsonObject(res, span);
+}
+
+function nodeToJson(node: TomlNode): JsonValue {
+    if (node.type === 'table') {
+        return tableToJson(node);
+    } else if (node.type === 'tableArray') {
+        return GenJsonValue.jsonArray(node.tables.map(t => tableToJson(t)), node.span);
+    }
+    return node.value;
+}
+
+/**
+ * Read TOML text into a JSON value, where each value remembers the
+ * region of the text it was read from.
+ *
+ * Dates and times are read as strings in RFC 3339 format (e.g.,
+ * "1979-05-27T07:32:00Z", "1979-05-27" or "07:32:00"), so they
+ * can be read by the 'Date' specifier.
+ */
+export function readToml(text: string, opts: { name?: string } = {}): Either<ReadError, JsonValue> {
+    try {
+        return Either.right(new TomlReader({ name: opts.name, text }).readDocument());
+    } catch (e) {
+        if (e instanceof ReadError) {
+            return Either.left(e);
+        }
+        throw e;
+    }
+}
+
+/**
+ * Parser for TOML text, which interprets the text using the same
+ * specifications as {@link JsonParser}.
+ */
+export class TomlParser extends JsonParser {
+    protected readText(text: string, name?: string): JsonParseResult<JsonValue> {
+        return readToml(text, { name }).mapBoth(err => new JsonParser.JsonSyntaxError(err), v => v);
+    }
+}
@@ -17,10 +17,16 @@ export type SafeNested<T extends NotArray<any>> = Nested<T>
 /** A non-empty list. */
 export type NonEmpty<T> = [T, ...T[]]
 
-function isNonEmptyArray<T>(x: T[]): x is NonEmpty<T> {
+export function isNonEmptyArray<T>(x: T[]): x is NonEmpty<T> {
     return x.length > 0;
 }
 
+/** Number of days in the given month (1 to 12) of the given year. */
+export function daysInMonth(year: number, month: number): number {
+    const isLeapYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    return month === 2 ? (isLeapYear ? 29 : 28) : [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
 /** A non-empty list whose elements may themselves be nested, non-empty lists. */
 export type NonEmptyNested<T> = [T | NonEmptyNested<T>, ...(T | NonEmptyNested<T>)[]]
 
@@ -0,0 +1,256 @@
+import { Either, Maybe } from './deps.ts';
+
+/** A named piece of text that values can be read from. */
+export interface Source {
+    /** Name of the source (e.g., a file path), if any. */
+    name?: string;
+    text: string;
+}
+
+/** A position in a piece of text. Lines and columns start at 1. */
+export interface SourcePosition {
+    offset: number;
+    line: number;
+    column: number;
+}
+
+/** The region of a source that a value was read from. */
+export interface SourceSpan {
+    source: Source;
+    start: SourcePosition;
+    end: SourcePosition;
+}
+
+/** Human-readable description of a position, e.g., "line 12, column 7". */
+export function describePosition(source: Source, pos: SourcePosition): string {
+    return (source.name !== undefined ? `${source.name}, ` : '') + `line ${pos.line}, column ${pos.column}`;
+}
+
+/**
+ * An excerpt of the source around the given position, with the
+ * line containing the position marked, and a caret pointing at the
+ * column.
+ */
+export function codeFrame(source: Source, pos: SourcePosition): string {
+    const lines = source.text.split(/\r\n|\r|\n/);
+    const firstLine = Math.max(pos.line - 1, 1);
+    const lastLine = Math.min(pos.line, lines.length);
+    const numWidth = String(lastLine).length;
+    const res: string[] = [];
+    for (let l = firstLine; l <= lastLine; l++) {
+        const marker = l === pos.line ? '>' : ' ';
+        res.push(`${marker} ${String(l).padStart(numWidth)} | ${lines[l - 1]}`.trimEnd());
+    }
+    const linePrefix = (lines[pos.line - 1] || '').slice(0, pos.column - 1).replace(/[^\t]/g, ' ');
+    res.push(`  ${' '.repeat(numWidth)} | ${linePrefix}^`);
+    return res.join('\n');
+}
+
+/**
+ * Write the text of a decimal number (e.g., "+.5", "5." or "007")
+ * in the form used by JSON (e.g., "0.5", "5" or "7"), keeping every
+ * digit.
+ */
+export function jsonNumberText(text: string): string {
+    const m = /^([-+]?)(\d*)(?:\.(\d*))?([eE][-+]?\d+)?$/.exec(text);
+    if (m === null) {
+        throw new TypeError(`${JSON.stringify(text)} is not a decimal number`);
+    }
+    const [, sign, integerPart, fractionalPart, exponent] = m;
+    return (sign === '-' ? '-' : '') + (integerPart.replace(/^0+(?=\d)/, '') || '0')
+        + (fractionalPart ? '.' + fractionalPart : '') + (exponent ?? '');
+}
+
+type GenJsonType<T> = {
+    "array": T[],
+    "boolean": boolean,
+    "null": null,
+    "number": number,
+    "object": { [k: string]: T },
+    "string": string
+}
+
+/**
+ * Possible types for a JSON value.
+ *
+ * Here, elements of arrays and values of objects are themselves JSON values.
+ */
+export type JsonType = GenJsonType<JsonValue>;
+
+/** Types that are directly JSON compatible. */
+export type JsonValueRaw = JsonValueRaw[] | boolean | null | number | { [k: string]: JsonValueRaw } | string;
+
+export type JsonTypeName = keyof JsonType;
+
+export class GenJsonValue<T extends JsonTypeName> {
+    private value: JsonType[T];
+    protected ty: T;
+    private span: Maybe<SourceSpan>;
+    private numberText: Maybe<string>;
+
+    constructor(value: JsonType[T], ty: T, span?: SourceSpan, numberText?: string) {
+        this.value = value;
+        this.ty = ty;
+        this.span = span === undefined ? Maybe.none() : Maybe.some(span);
+        this.numberText = numberText === undefined ? Maybe.none() : Maybe.some(numberText);
+    }
+
+    getType(): JsonTypeName {
+        return this.ty;
+    }
+
+    /** Where the value was read from, if it was read from text. */
+    getSpan(): Maybe<SourceSpan> {
+        return this.span;
+    }
+
+    /**
+     * For a number read from text, the number as it was written, in
+     * the decimal form used by JSON (e.g., "0.5" for ".5" in JSON5).
+     * Unlike the number itself, this keeps every digit, so can be
+     * used to read integers larger than 2^53 or decimals exactly.
+     */
+    getNumberText(): Maybe<string> {
+        return this.numberText;
+    }
+
+    unwrap(): JsonType[T] {
+        return this.value;
+    }
+
+    /** The value as JSON text, keeping every digit of numbers read from text. */
+    toJsonString(): string {
+        if (this.isNumber() && this.numberText.isSome()) {
+            return this.numberText.unwrap();
+        } else if (this.isArray()) {
+            return `[${this.value.map(v => v.toJsonString()).join(',')}]`;
+        } else if (this.isObject()) {
+            const v = this.value;
+            return `{${Object.keys(v).map(k => `${JSON.stringify(k)}:${v[k].toJsonString()}`).join(',')}}`;
+        }
+        return JSON.stringify(this.unwrapFully());
+    }
+
+    isArray(): this is GenJsonValue<"array"> {
+        return this.getType() === "array";
+    }
+
+    isBoolean(): this is GenJsonValue<"boolean"> {
+        return this.getType() === "boolean";
+    }
+
+    isNull(): this is GenJsonValue<"null"> {
+        return this.getType() === "null";
+    }
+
+    isNumber(): this is GenJsonValue<"number"> {
+        return this.getType() === "number";
+    }
+
+    isObject(): this is GenJsonValue<"object"> {
+        return this.getType() === "object";
+    }
+
+    isString(): this is GenJsonValue<"string"> {
+        return this.getType() === "string";
+    }
+
+    unwrapFully(): JsonValueRaw {
+        if (this.isArray()) {
+            return this.value.map(v => v.unwrapFully());
+        } else if (this.isBoolean()) {
+            return this.value;
+        } else if (this.isNull()) {
+            return this.value;
+        } else if (this.isNumber()) {
+            return this.value;
+        } else if (this.isObject()) {
+            const res: { [k: string]: JsonValueRaw } = {};
+            const v = this.value;
+            for (const k in v) {
+                res[k] = v[k].unwrapFully();
+            }
+            return res;
+        } else if (this.isString()) {
+            return this.value;
+        } else {
+            throw new Error("unreachable");
+        }
+    }
+
+    static jsonArray(xs: JsonValue[], span?: SourceSpan): JsonArray {
+        return new GenJsonValue(xs, "array", span);
+    }
+
+    static jsonBoolean(b: boolean, span?: SourceSpan): JsonBoolean {
+        return new GenJsonValue(b, "boolean", span);
+    }
+
+    static jsonNull(span?: SourceSpan): JsonNull {
+        return new GenJsonValue(null, "null", span);
+    }
+
+    static jsonNumber(n: number, span?: SourceSpan, text?: string): JsonNumber {
+        return new GenJsonValue(n, "number", span, text);
+    }
+
+    static jsonObject(o: { [k: string]: JsonValue }, span?: SourceSpan): JsonObject {
+        return new GenJsonValue(o, "object", span);
+    }
+
+    static jsonString(s: string, span?: SourceSpan): JsonString {
+        return new GenJsonValue(s, "string", span);
+    }
+}
+
+export type JsonValue = GenJsonValue<keyof JsonType>;
+
+export type JsonArray = GenJsonValue<"array">;
+
+export type JsonBoolean = GenJsonValue<"boolean">;
+
+export type JsonObject = GenJsonValue<"object">;
+
+export type JsonNull = GenJsonValue<"null">;
+
+export type JsonNumber = GenJsonValue<"number">;
+
+export type JsonString = GenJsonValue<"string">;
+
+/** Convert a JavaScript value into a JSON value. */
+export function toJsonValue(x: any): Either<Error, JsonValue> {
+    const pure = Either.pure;
+    const fail = (msg: string) => Either.fail<Error, JsonValue>(new Error(msg));
+    if (typeof x === 'string') {
+        return pure(GenJsonValue.jsonString(x));
+    } else if (typeof x === 'boolean') {
+        return pure(GenJsonValue.jsonBoolean(x));
+    } else if (typeof x === 'number') {
+        return pure(GenJsonValue.jsonNumber(x));
+    } else if (x === null) {
+        return pure(GenJsonValue.jsonNull());
+    } else if (x instanceof Array) {
+        const res = [];
+        for (let i = 0; i < x.length; i++) {
+            const ijson = toJsonValue(x[i]);
+            if (ijson.isLeft()) {
+                return ijson.propLeft();
+            }
+            res[i] = ijson.unwrapRight();
+        }
+        return pure(GenJsonValue.jsonArray(res));
+    } else if (typeof x === 'function') {
+        return fail('functions not supported by JSON');
+    } else if (typeof x === 'object') {
+        const res: { [k: string]: JsonValue } = {};
+        for (const k in x) {
+            const kjson = toJsonValue(x[k]);
+            if (kjson.isLeft()) {
+                return kjson.propLeft();
+            }
+            res[k] = kjson.unwrapRight();
+        }
+        return pure(GenJsonValue.jsonObject(res));
+    }
+    return fail(`could not load JSON value: ${x}`);
+}
@@ -0,0 +1,1002 @@
+import { Either } from './deps.ts';
+
+import {
+    JsonParser,
+    JsonParseResult,
+    JsonSchema,
+    SpecResult,
+    TySpec,
+} from './json.ts';
+
+import { describeChar, ReadError } from './reader.ts';
+
+import {
+    GenJsonValue,
+    jsonNumberText,
+    JsonValue,
+    Source,
+    SourcePosition,
+    SourceSpan,
+} from './value.ts';
+
+/** A scalar as it was written, before it has been given a type. */
+interface Scalar {
+    plain: boolean;
+    text: string;
+    span: SourceSpan;
+}
+
+/** The anchor and tag given to a node. */
+interface Properties {
+    start?: SourcePosition;
+    anchor?: string;
+    tag?: string;
+}
+
+interface ReaderState {
+    offset: number;
+    line: number;
+    column: number;
+    aliasedValues: number;
+}
+
+// patterns for plain scalars in the YAML 1.2 core schema
+const nullPattern = /^(?:~|null|Null|NULL|)$/;
+const boolPattern = /^(?:true|True|TRUE|false|False|FALSE)$/;
+const decimalPattern = /^[-+]?[0-9]+$/;
+const octalPattern = /^0o[0-7]+$/;
+const hexPattern = /^0x[0-9a-fA-F]+$/;
+const floatPattern = /^[-+]?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)(?:[eE][-+]?[0-9]+)?$/;
+const infinityPattern = /^[-+]?\.(?:inf|Inf|INF)$/;
+const nanPattern = /^\.(?:nan|NaN|NAN)$/;
+
+/**
+ * The most values that the aliases of a document may stand for,
+ * counting every value inside aliased collections. Documents whose
+ * aliases refer to collections full of other aliases can otherwise
+ * grow exponentially (the "billion laughs" attack).
+ */
+const maxAliasedValues = 100000;
+
+const doubleQuotedEscapes: { [k: string]: string } = {
+    '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+    ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\x85', _: '\xa0', L: '\u2028', P: '\u2029',
+};
+
+function isBreak(c: string | undefined): boolean {
+    return c === '\n' || c === '\r';
+}
+
+function isBlank(c: string | undefined): boolean {
+    return c === ' ' || c === '\t';
+}
+
+function isWhitespaceOrEnd(c: string | undefined): boolean {
+    return c === undefined || isBlank(c) || isBreak(c);
+}
+
+function isFlowIndicator(c: string | undefined): boolean {
+    return c !== undefined && ',[]{}'.includes(c);
+}
+
+function isHexDigit(c: string | undefined): boolean {
+    return c !== undefined && /[0-9a-fA-F]/.test(c);
+}
+
+/** Normalise tags written in full (e.g., '!<tag:yaml.org,2002:str>') to their short form (e.g., '!!str'). */
+function normaliseTag(tag: string): string {
+    const m = /^!<tag:yaml\.org,2002:(.*)>$/.exec(tag);
+    return m !== null ? `!!${m[1]}` : tag;
+}
+
+/**
+ * Reads YAML text into JSON values, keeping track of where each
+ * value came from.
+ *
+ * Plain scalars are typed using the YAML 1.2 core schema, so that
+ * (e.g.) 'true', '12' and '~' are read as a boolean, number and
+ * null respectively.
+ */
+class YamlReader {
+    private source: Source;
+    private text: string;
+    private offset: number;
+    private line: number;
+    private column: number;
+    private anchors: Map<string, JsonValue>;
+    /** The number of values the aliases of the current document stand for. */
+    private aliasedValues: number;
+    /** The number of values in each collection, by its contents, counting those inside aliases. */
+    private collectionSizes: WeakMap<object, number>;
+    private documentStarts: SourcePosition[];
+
+    constructor(source: Source) {
+        this.source = source;
+        this.text = source.text;
+        this.offset = 0;
+        this.line = 1;
+        this.column = 1;
+        this.anchors = new Map();
+        this.aliasedValues = 0;
+        this.collectionSizes = new WeakMap();
+        this.documentStarts = [];
+    }
+
+    private position(): SourcePosition {
+        return { offset: this.offset, line: this.line, column: this.column };
+    }
+
+    private save(): ReaderState {
+        return { offset: this.offset, line: this.line, column: this.column, aliasedValues: this.aliasedValues };
+    }
+
+    private restore(state: ReaderState) {
+        this.offset = state.offset;
+        this.line = state.line;
+        this.column = state.column;
+        this.aliasedValues = state.aliasedValues;
+    }
+
+    private fail(reason: string, pos: SourcePosition = this.position()): never {
+        throw new ReadError(this.source, pos, reason);
+    }
+
+    private failUnexpected(expected: string): never {
+        return this.fail(`expected ${expected} but saw ${describeChar(this.peek())}`);
+    }
+
+    private peek(n = 0): string | undefined {
+        return this.offset + n < this.text.length ? this.text[this.offset + n] : undefined;
+    }
+
+    private advance(): string {
+        const c = this.text[this.offset++];
+        if (c === '\n' || c === '\r' && this.peek() !== '\n') {
+            this.line++;
+            this.column = 1;
+        } else {
+            this.column++;
+        }
+        return c;
+    }
+
+    private advanceBreak() {
+        if (this.peek() === '\r') {
+            this.advance();
+        }
+        if (this.peek() === '\n') {
+            this.advance();
+        }
+    }
+
+    private span(start: SourcePosition, end: SourcePosition = this.position()): SourceSpan {
+        return { source: this.source, start, end };
+    }
+
+    private skipBlanks() {
+        while (isBlank(this.peek())) {
+            this.advance();
+        }
+    }
+
+    /** True if the previous character separates the current one from any content before it (as required before a comment). */
+    private afterWhitespace(): boolean {
+        return this.offset === 0 || isWhitespaceOrEnd(this.text[this.offset - 1]);
+    }
+
+    private atComment(): boolean {
+        return this.peek() === '#' && this.afterWhitespace();
+    }
+
+    private skipComment() {
+        while (this.peek() !== undefined && !isBreak(this.peek())) {
+            this.advance();
+        }
+    }
+
+    private atLineEnd(): boolean {
+        return isWhitespaceOrEnd(this.peek()) && !isBlank(this.peek()) || this.atComment();
+    }
+
+    /** Skip the rest of the current line, which may only contain whitespace and a comment. */
+    private endLine() {
+        this.skipBlanks();
+        if (this.atComment()) {
+            this.skipComment();
+        }
+        if (!this.atLineEnd()) {
+            this.failUnexpected('the end of the line');
+        }
+    }
+
+    /**
+     * Skip whitespace, comments and empty lines up to the next content.
+     *
+     * In block context, indentation may only use spaces.
+     */
+    private skipToNextContent(inFlow = false) {
+        let crossedLines = false;
+        while (true) {
+            this.skipBlanks();
+            if (this.atComment()) {
+                this.skipComment();
+            }
+            if (!isBreak(this.peek())) {
+                break;
+            }
+            this.advanceBreak();
+            crossedLines = true;
+        }
+        if (crossedLines && !inFlow && this.peek() !== undefined && this.text.slice(this.offset - this.column + 1, this.offset).includes('\t')) {
+            this.fail('tabs cannot be used for indentation');
+        }
+    }
+
+    private atDocumentMarker(marker: '---' | '...'): boolean {
+        return this.column === 1 && this.text.startsWith(marker, this.offset) && isWhitespaceOrEnd(this.peek(3));
+    }
+
+    /**
+     * Indentation of the current line, when positioned at its first
+     * content. The end of the input and document markers count as
+     * the least indentation possible, as they end every block.
+     */
+    private indent(): number {
+        if (this.peek() === undefined || this.atDocumentMarker('---') || this.atDocumentMarker('...')) {
+            return -1;
+        }
+        return this.column - 1;
+    }
+
+    private atSequenceEntry(): boolean {
+        return this.peek() === '-' && isWhitespaceOrEnd(this.peek(1));
+    }
+
+    private atExplicitKey(): boolean {
+        return this.peek() === '?' && isWhitespaceOrEnd(this.peek(1));
+    }
+
+    private atPlainStart(inFlow: boolean): boolean {
+        const c = this.peek();
+        if (isWhitespaceOrEnd(c)) {
+            return false;
+        } else if (c === '-' || c === '?' || c === ':') {
+            const next = this.peek(1);
+            return !isWhitespaceOrEnd(next) && !(inFlow && isFlowIndicator(next));
+        }
+        return !'-?:,[]{}#&*!|>\'"%@`'.includes(c as string);
+    }
+
+    /** Read every document in the text. */
+    readStream(): JsonValue[] {
+        const res: JsonValue[] = [];
+        if (this.peek() === '\uFEFF') {
+            this.advance();
+        }
+        this.skipToNextContent();
+        while (this.peek() !== undefined) {
+            const start = this.position();
+            let sawDirective = false;
+            while (this.column === 1 && this.peek() === '%') {
+                this.skipComment();
+                this.skipToNextContent();
+                sawDirective = true;
+            }
+            if (this.atDocumentMarker('...') && !sawDirective) {
+                this.advance(); this.advance(); this.advance();
+                this.endLine();
+                this.skipToNextContent();
+                continue;
+            }
+            this.anchors = new Map();
+            this.aliasedValues = 0;
+            this.documentStarts.push(start);
+            if (this.atDocumentMarker('---')) {
+                this.advance(); this.advance(); this.advance();
+            } else if (sawDirective) {
+                this.failUnexpected('"---" after directives');
+            }
+            res.push(this.readBlockValue(-1, false));
+            if (this.atDocumentMarker('...')) {
+                this.advance(); this.advance(); this.advance();
+                this.endLine();
+                this.skipToNextContent();
+            } else if (this.peek() !== undefined && !this.atDocumentMarker('---')) {
+                this.failUnexpected('the end of the document');
+            }
+        }
+        return res;
+    }
+
+    /** Where each document read by {@link readStream} started. */
+    getDocumentStarts(): SourcePosition[] {
+        return this.documentStarts;
+    }
+
+    /**
+     * Read a node in block context, that must be indented more than
+     * 'n'.
+     *
+     * The reader is either just after the indicator that introduces
+     * the node ('-', ':', or '---'), or at the start of the node's
+     * content. Afterwards, the reader is at the next content.
+     */
+    private readBlockValue(n: number, isMappingValue: boolean, outerProps: Properties = {}): JsonValue {
+        this.skipBlanks();
+        const start = this.position();
+        const beforeProperties = this.save();
+        const props = this.readProperties(outerProps);
+        if (this.atLineEnd()) {
+            this.skipToNextContent();
+            const ind = this.indent();
+            if (ind > n) {
+                return this.readBlockValue(n, false, props);
+            } else if (ind === n && isMappingValue && this.atSequenceEntry()) {
+                // sequences that are the value of a mapping key may be at the same indentation as the key
+                return this.collectionNode(this.readBlockSequence(n), props);
+            }
+            return this.scalarNode({ plain: true, text: '', span: this.span(start, start) }, props);
+        }
+        const c = this.peek();
+        if (this.atSequenceEntry() && !isMappingValue) {
+            return this.collectionNode(this.readBlockSequence(this.column - 1), props);
+        } else if (c === '|' || c === '>') {
+            const res = this.scalarNode(this.readBlockScalar(n), props);
+            this.skipToNextContent();
+            return res;
+        } else if (this.atExplicitKey()) {
+            this.fail('explicit mapping keys ("?") are not supported');
+        } else if (this.atImplicitKey(false)) {
+            if (isMappingValue) {
+                this.fail('a mapping cannot start on the same line as the key it is the value of');
+            }
+            // any properties on the same line belong to the first key
+            this.restore(beforeProperties);
+            return this.collectionNode(this.readBlockMapping(this.column - 1), outerProps);
+        }
+        const res = this.readInlineNode(n, false, props);
+        this.endLine();
+        this.skipToNextContent();
+        return res;
+    }
+
+    private readBlockSequence(n: number): JsonValue {
+        const start = this.position();
+        const res: JsonValue[] = [];
+        while (true) {
+            this.advance();
+            const v = this.readBlockValue(n, false);
+            res.push(v);
+            const ind = this.indent();
+            if (ind === n && this.atSequenceEntry()) {
+                continue;
+            } else if (ind > n) {
+                this.fail('bad indentation of a sequence entry');
+            }
+            return GenJsonValue.jsonArray(res, this.span(start, v.getSpan().unwrap().end));
+        }
+    }
+
+    private readBlockMapping(n: number): JsonValue {
+        const start = this.position();
+        const res: { [k: string]: JsonValue } = {};
+        while (true) {
+            if (this.atExplicitKey()) {
+                this.fail('explicit mapping keys ("?") are not supported');
+            }
+            const key = this.readMappingKey(false);
+            this.skipBlanks();
+            if (!(this.peek() === ':' && isWhitespaceOrEnd(this.peek(1)))) {
+                this.failUnexpected('":"');
+            }
+            this.advance();
+            const v = this.readBlockValue(n, true);
+            this.setKey(res, key, v);
+            const ind = this.indent();
+            if (ind === n) {
+                continue;
+            } else if (ind > n) {
+                this.fail('bad indentation of a mapping entry');
+            }
+            return GenJsonValue.jsonObject(res, this.span(start, v.getSpan().unwrap().end));
+        }
+    }
+
+    private setKey(res: { [k: string]: JsonValue }, key: Scalar, v: JsonValue) {
+        if (Object.prototype.hasOwnProperty.call(res, key.text)) {
+            this.fail(`duplicate key ${JSON.stringify(key.text)}`, key.span.start);
+        }
+        // defined rather than assigned so that keys like "__proto__" are treated as normal keys
+        Object.defineProperty(res, key.text, { value: v, enumerable: true, writable: true, configurable: true });
+    }
+
+    /** True if the reader is at a key (on a single line) followed by ':'. */
+    private atImplicitKey(inFlow: boolean): boolean {
+        const state = this.save();
+        try {
+            const key = this.readMappingKey(inFlow);
+            if (key.span.start.line !== key.span.end.line) {
+                return false;
+            }
+            this.skipBlanks();
+            const next = this.peek(1);
+            return this.peek() === ':' && (isWhitespaceOrEnd(next) || inFlow && (isFlowIndicator(next) || !key.plain));
+        } catch (e) {
+            if (e instanceof ReadError) {
+                return false;
+            }
+            throw e;
+        } finally {
+            this.restore(state);
+        }
+    }
+
+    /** Read a mapping key. Keys must be scalars, and are used as they were written (e.g., '1: a' has the key "1"). */
+    private readMappingKey(inFlow: boolean): Scalar {
+        const props = this.readProperties();
+        const start = this.position();
+        const c = this.peek();
+        let res: Scalar;
+        if (c === '*') {
+            const v = this.readAlias();
+            if (!v.isString()) {
+                this.fail('aliases used as mapping keys must refer to strings', start);
+            }
+            res = { plain: false, text: v.unwrap(), span: this.span(start) };
+        } else if (c === '[' || c === '{') {
+            return this.fail('mapping keys must be scalars');
+        } else if (c === '"' || c === "'") {
+            res = this.readQuotedScalar();
+        } else if (this.atPlainStart(inFlow)) {
+            res = this.readPlainScalar(-1, inFlow, true);
+        } else {
+            return this.failUnexpected('a mapping key');
+        }
+        this.scalarNode(res, props);
+        return res;
+    }
+
+    /** Read the anchor and tag of a node, adding to any that were given before it (e.g., on a previous line). */
+    private readProperties(outerProps: Properties = {}): Properties {
+        const res: Properties = { ...outerProps };
+        while (this.peek() === '&' || this.peek() === '!') {
+            if (res.start === undefined) {
+                res.start = this.position();
+            }
+            if (this.peek() === '&') {
+                if (res.anchor !== undefined) {
+                    this.fail('a node can only have one anchor');
+                }
+                this.advance();
+                res.anchor = this.readName('an anchor name');
+            } else {
+                if (res.tag !== undefined) {
+                    this.fail('a node can only have one tag');
+                }
+                res.tag = this.readTag();
+            }
+            this.skipBlanks();
+        }
+        return res;
+    }
+
+    private readName(expected: string): string {
+        let res = '';
+        while (!isWhitespaceOrEnd(this.peek()) && !isFlowIndicator(this.peek())) {
+            res += this.advance();
+        }
+        if (res === '') {
+            this.failUnexpected(expected);
+        }
+        return res;
+    }
+
+    private readTag(): string {
+        let res = this.advance();
+        if (this.peek() === '<') {
+            while (this.peek() !== '>') {
+                if (isWhitespaceOrEnd(this.peek())) {
+                    this.failUnexpected('">"');
+                }
+                res += this.advance();
+            }
+            res += this.advance();
+        } else {
+            while (!isWhitespaceOrEnd(this.peek()) && !isFlowIndicator(this.peek())) {
+                res += this.advance();
+            }
+        }
+        return normaliseTag(res);
+    }
+
+    private readAlias(): JsonValue {
+        const start = this.position();
+        this.advance();
+        const name = this.readName('an alias name');
+        const v = this.anchors.get(name);
+        if (v === undefined) {
+            return this.fail(`unknown alias ${JSON.stringify(name)}`, start);
+        }
+        this.aliasedValues += this.size(v);
+        if (this.aliasedValues > maxAliasedValues) {
+            return this.fail(`aliases stand for more than ${maxAliasedValues} values`, start);
+        }
+        return new GenJsonValue(v.unwrap(), v.getType(), this.span(start), v.getNumberText().maybe(undefined, t => t));
+    }
+
+    /** The number of values in 'v', including itself. */
+    private size(v: JsonValue): number {
+        if (!v.isArray() && !v.isObject()) {
+            return 1;
+        }
+        const contents = v.unwrap();
+        let res = this.collectionSizes.get(contents);
+        if (res === undefined) {
+            res = Object.values(contents).reduce((n: number, x: JsonValue) => n + this.size(x), 1);
+            this.collectionSizes.set(contents, res);
+        }
+        return res;
+    }
+
+    /** Read a node that is not a block collection or block scalar. */
+    private readInlineNode(parentIndent: number, inFlow: boolean, props: Properties): JsonValue {
+        const c = this.peek();
+        if (c === '[') {
+            return this.collectionNode(this.readFlowSequence(), props);
+        } else if (c === '{') {
+            return this.collectionNode(this.readFlowMapping(), props);
+        } else if (c === '*') {
+            if (props.start !== undefined) {
+                this.fail('an alias cannot have an anchor or tag', props.start);
+            }
+            return this.readAlias();
+        } else if (c === '"' || c === "'") {
+            return this.scalarNode(this.readQuotedScalar(), props);
+        } else if (this.atPlainStart(inFlow)) {
+            return this.scalarNode(this.readPlainScalar(parentIndent, inFlow, false), props);
+        }
+        return this.failUnexpected('a value');
+    }
+
+    private readFlowNode(): JsonValue {
+        const props = this.readProperties();
+        this.skipToNextContent(true);
+        if (props.start !== undefined && (this.peek() === ',' || this.peek() === ']' || this.peek() === '}')) {
+            return this.scalarNode({ plain: true, text: '', span: this.span(this.position(), this.position()) }, props);
+        }
+        return this.readInlineNode(-1, true, props);
+    }
+
+    private readFlowSequence(): JsonValue {
+        const start = this.position();
+        const res: JsonValue[] = [];
+        this.advance();
+        while (true) {
+            this.skipToNextContent(true);
+            if (this.peek() === ']') {
+                break;
+            }
+            if (this.atImplicitKey(true)) {
+                // a single key-value pair is read as a mapping with one key
+                const pairStart = this.position();
+                const key = this.readMappingKey(true);
+                this.skipBlanks();
+                this.advance();
+                const pair: { [k: string]: JsonValue } = {};
+                this.setKey(pair, key, this.readFlowValue());
+                res.push(GenJsonValue.jsonObject(pair, this.span(pairStart)));
+            } else {
+                res.push(this.readFlowNode());
+            }
+            this.skipToNextContent(true);
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() !== ']') {
+                this.failUnexpected('"," or "]"');
+            }
+        }
+        this.advance();
+        return GenJsonValue.jsonArray(res, this.span(start));
+    }
+
+    private readFlowMapping(): JsonValue {
+        const start = this.position();
+        const res: { [k: string]: JsonValue } = {};
+        this.advance();
+        while (true) {
+            this.skipToNextContent(true);
+            if (this.peek() === '}') {
+                break;
+            }
+            if (this.atExplicitKey()) {
+                this.fail('explicit mapping keys ("?") are not supported');
+            }
+            const key = this.readMappingKey(true);
+            this.skipToNextContent(true);
+            let v: JsonValue;
+            if (this.peek() === ':') {
+                this.advance();
+                v = this.readFlowValue();
+            } else {
+                v = GenJsonValue.jsonNull(this.span(this.position(), this.position()));
+            }
+            this.setKey(res, key, v);
+            this.skipToNextContent(true);
+            if (this.peek() === ',') {
+                this.advance();
+            } else if (this.peek() !== '}') {
+                this.failUnexpected('"," or "}"');
+            }
+        }
+        this.advance();
+        return GenJsonValue.jsonObject(res, this.span(start));
+    }
+
+    /** Read the value after a ':' in flow context, which may be left out. */
+    private readFlowValue(): JsonValue {
+        this.skipToNextContent(true);
+        const c = this.peek();
+        if (c === ',' || c === ']' || c === '}') {
+            return GenJsonValue.jsonNull(this.span(this.position(), this.position()));
+        }
+        return this.readFlowNode();
+    }
+
+    /**
+     * Read a plain (unquoted) scalar. Unless it is a key, it may
+     * continue over following lines that are indented more than
+     * 'parentIndent'.
+     */
+    private readPlainScalar(parentIndent: number, inFlow: boolean, isKey: boolean): Scalar {
+        const start = this.position();
+        let [text, end] = this.readPlainLine(inFlow);
+        while (!isKey) {
+            const state = this.save();
+            this.skipBlanks();
+            if (!isBreak(this.peek())) {
+                this.restore(state);
+                break;
+            }
+            let breaks = 0;
+            while (isBreak(this.peek())) {
+                this.advanceBreak();
+                breaks++;
+                this.skipBlanks();
+            }
+            const c = this.peek();
+            if (c === undefined || c === '#' || this.atDocumentMarker('---') || this.atDocumentMarker('...')
+                || !inFlow && this.column - 1 <= parentIndent || inFlow && isFlowIndicator(c)) {
+                this.restore(state);
+                break;
+            }
+            const [line, lineEnd] = this.readPlainLine(inFlow);
+            if (line === '') {
+                this.restore(state);
+                break;
+            }
+            // a single line break is folded into a space, otherwise each empty line is a line break
+            text += (breaks === 1 ? ' ' : '\n'.repeat(breaks - 1)) + line;
+            end = lineEnd;
+        }
+        return { plain: true, text, span: this.span(start, end) };
+    }
+
+    /** Read the part of a plain scalar that is on the current line. Trailing whitespace is not included. */
+    private readPlainLine(inFlow: boolean): [string, SourcePosition] {
+        let text = '';
+        let end = this.position();
+        while (true) {
+            const c = this.peek();
+            if (c === undefined || isBreak(c)
+                || c === ':' && (isWhitespaceOrEnd(this.peek(1)) || inFlow && isFlowIndicator(this.peek(1)))
+                || inFlow && isFlowIndicator(c)
+                || c === '#' && isBlank(text[text.length - 1])) {
+                break;
+            }
+            text += this.advance();
+            if (!isBlank(c)) {
+                end = this.position();
+            }
+        }
+        return [text.replace(/[ \t]+$/, ''), end];
+    }
+
+    private readQuotedScalar(): Scalar {
+        const start = this.position();
+        const quote = this.advance();
+        let text = '';
+        // characters before this point came from escapes, and are kept when folding lines
+        let keep = 0;
+        while (true) {
+            const c = this.peek();
+            if (c === undefined || this.atDocumentMarker('---') || this.atDocumentMarker('...')) {
+                this.fail('unterminated string', start);
+            } else if (c === quote && quote === "'" && this.peek(1) === "'") {
+                this.advance();
+                this.advance();
+                text += "'";
+                keep = text.length;
+            } else if (c === quote) {
+                this.advance();
+                return { plain: false, text, span: this.span(start) };
+            } else if (c === '\\' && quote === '"') {
+                if (isBreak(this.peek(1))) {
+                    // an escaped line break joins the lines without a space
+                    this.advance();
+                    this.advanceBreak();
+                    this.skipBlanks();
+                } else {
+                    text += this.readEscape();
+                }
+                keep = text.length;
+            } else if (isBreak(c)) {
+                text = text.slice(0, keep) + text.slice(keep).replace(/[ \t]+$/, '');
+                let breaks = 0;
+                while (isBreak(this.peek())) {
+                    this.advanceBreak();
+                    breaks++;
+                    this.skipBlanks();
+                }
+                text += breaks === 1 ? ' ' : '\n'.repeat(breaks - 1);
+            } else {
+                text += this.advance();
+            }
+        }
+    }
+
+    private readEscape(): string {
+        const start = this.position();
+        this.advance();
+        const c = this.peek();
+        if (c !== undefined && Object.prototype.hasOwnProperty.call(doubleQuotedEscapes, c)) {
+            this.advance();
+            return doubleQuotedEscapes[c];
+        }
+        const digits = c === 'x' ? 2 : c === 'u' ? 4 : c === 'U' ? 8 : 0;
+        if (digits === 0) {
+            return this.fail(`invalid escape sequence ${JSON.stringify('\\' + (c === undefined ? '' : c))}`, start);
+        }
+        this.advance();
+        let hex = '';
+        for (let i = 0; i < digits; i++) {
+            if (!isHexDigit(this.peek())) {
+                this.failUnexpected('a hexadecimal digit');
+            }
+            hex += this.advance();
+        }
+        const code = parseInt(hex, 16);
+        if (code > 0x10FFFF) {
+            this.fail(`invalid escape sequence ${JSON.stringify('\\' + c + hex)}`, start);
+        }
+        return String.fromCodePoint(code);
+    }
+
+    /**
+     * Read a literal ('|') or folded ('>') block scalar, whose
+     * content must be indented more than 'n'.
+     *
+     * Afterwards, the reader is at the start of the line after the
+     * scalar.
+     */
+    private readBlockScalar(n: number): Scalar {
+        const start = this.position();
+        const folded = this.advance() === '>';
+        let chomping: 'clip' | 'keep' | 'strip' = 'clip';
+        let indentIndicator: number | undefined;
+        for (let i = 0; i < 2; i++) {
+            const c = this.peek();
+            if ((c === '+' || c === '-') && chomping === 'clip') {
+                chomping = c === '+' ? 'keep' : 'strip';
+                this.advance();
+            } else if (c !== undefined && c >= '1' && c <= '9' && indentIndicator === undefined) {
+                indentIndicator = Number(this.advance());
+            }
+        }
+        this.endLine();
+        this.advanceBreak();
+        const contentIndent = indentIndicator !== undefined ? Math.max(n, 0) + indentIndicator : this.detectBlockIndent(n);
+        const lines: string[] = [];
+        let end = this.span(start).end;
+        let endsWithBreak = false;
+        while (this.peek() !== undefined) {
+            const lineStart = this.save();
+            let spaces = 0;
+            while (spaces < contentIndent && this.peek() === ' ') {
+                this.advance();
+                spaces++;
+            }
+            if (isBreak(this.peek())) {
+                lines.push('');
+                this.advanceBreak();
+                continue;
+            } else if (this.peek() === undefined) {
+                break;
+            } else if (spaces < contentIndent || this.atDocumentMarker('---') || this.atDocumentMarker('...')) {
+                this.restore(lineStart);
+                break;
+            }
+            let line = '';
+            while (this.peek() !== undefined && !isBreak(this.peek())) {
+                line += this.advance();
+            }
+            lines.push(line);
+            end = this.position();
+            endsWithBreak = isBreak(this.peek());
+            this.advanceBreak();
+        }
+        let trailing = 0;
+        while (trailing < lines.length && lines[lines.length - 1 - trailing] === '') {
+            trailing++;
+        }
+        const body = lines.slice(0, lines.length - trailing);
+        let text = folded ? foldLines(body) : body.join('\n');
+        if (body.length > 0 && chomping !== 'strip' && endsWithBreak) {
+            text += '\n';
+        }
+        if (chomping === 'keep') {
+            text += '\n'.repeat(trailing);
+        }
+        return { plain: false, text, span: this.span(start, end) };
+    }
+
+    /** The indentation of a block scalar's content: that of its first non-empty line. */
+    private detectBlockIndent(n: number): number {
+        for (const line of this.text.slice(this.offset).split(/\r\n|\r|\n/)) {
+            const spaces = line.length - line.replace(/^ +/, '').length;
+            if (spaces < line.length) {
+                return Math.max(spaces, n + 1);
+            }
+        }
+        return n + 1;
+    }
+
+    /** Apply the properties to a collection. */
+    private collectionNode(v: JsonValue, props: Properties): JsonValue {
+        const tag = props.tag;
+        if (tag !== undefined && tag !== '!' && !(tag === '!!seq' && v.isArray()) && !(tag === '!!map' && v.isObject())) {
+            this.fail(tag === '!!seq' || tag === '!!map' || /^!!(?:str|null|bool|int|float)$/.test(tag)
+                ? `the tag ${JSON.stringify(tag)} cannot be used on a ${v.isArray() ? 'sequence' : 'mapping'}`
+                : `unsupported tag ${JSON.stringify(tag)}`, props.start);
+        }
+        if (props.anchor !== undefined) {
+            this.anchors.set(props.anchor, v);
+        }
+        return v;
+    }
+
+    /** Give the scalar a type, and apply its properties. */
+    private scalarNode(scalar: Scalar, props: Properties): JsonValue {
+        const res = this.typeScalar(scalar, props);
+        if (props.anchor !== undefined) {
+            this.anchors.set(props.anchor, res);
+        }
+        return res;
+    }
+
+    /** Give the scalar the type required by its tag, or by the core schema if it has no tag. */
+    private typeScalar(scalar: Scalar, props: Properties): JsonValue {
+        const tag = props.tag;
+        if (tag === undefined) {
+            return scalar.plain ? resolvePlainScalar(scalar.text, scalar.span) : GenJsonValue.jsonString(scalar.text, scalar.span);
+        } else if (tag === '!' || tag === '!!str') {
+            return GenJsonValue.jsonString(scalar.text, scalar.span);
+        } else if (tag === '!!seq' || tag === '!!map') {
+            return this.fail(`the tag ${JSON.stringify(tag)} cannot be used on a scalar`, props.start);
+        } else if (!/^!!(?:null|bool|int|float)$/.test(tag)) {
+            return this.fail(`unsupported tag ${JSON.stringify(tag)}`, props.start);
+        }
+        const res = resolvePlainScalar(scalar.text, scalar.span);
+        const isInteger = decimalPattern.test(scalar.text) || octalPattern.test(scalar.text) || hexPattern.test(scalar.text);
+        if (tag === '!!null' && res.isNull() || tag === '!!bool' && res.isBoolean()
+            || tag === '!!int' && isInteger || tag === '!!float' && res.isNumber()) {
+            return res;
+        }
+        return this.fail(`${JSON.stringify(scalar.text)} is not a valid ${tag}`, scalar.span.start);
+    }
+}
+
+/** Fold the lines of a folded block scalar, where lines that are indented more are kept as they are. */
+function foldLines(lines: string[]): string {
+    let res = '';
+    let emptyLines = 0;
+    let previousMoreIndented = false;
+    let first = true;
+    for (const line of lines) {
+        if (line === '') {
+            emptyLines++;
+            continue;
+        }
+        const moreIndented = isBlank(line[0]);
+        if (first) {
+            res += '\n'.repeat(emptyLines);
+        } else if (!previousMoreIndented && !moreIndented) {
+            res += emptyLines === 0 ? ' ' : '\n'.repeat(emptyLines);
+        } else {
+            res += '\n'.repeat(emptyLines + 1);
+        }
+        res += line;
+        first = false;
+        emptyLines = 0;
+        previousMoreIndented = moreIndented;
+    }
+    return res;
+}
+
+/** Give a plain scalar a type according to the YAML 1.2 core schema. */
+function resolvePlainScalar(text: string, span: SourceSpan): JsonValue {
+    if (nullPattern.test(text)) {
+        return GenJsonValue.jsonNull(span);
+    } else if (boolPattern.test(text)) {
+        return GenJsonValue.jsonBoolean(text[0] === 't' || text[0] === 'T', span);
+    } else if (decimalPattern.test(text) || floatPattern.test(text)) {
+        return GenJsonValue.jsonNumber(Number(text), span, jsonNumberText(text));
+    } else if (octalPattern.test(text) || hexPattern.test(text)) {
+        const n = BigInt(text);
+        return GenJsonValue.jsonNumber(Number(n), span, n.toString());
+    } else if (infinityPattern.test(text)) {
+        return GenJsonValue.jsonNumber(text[0] === '-' ? -Infinity : Infinity, span);
+    } else if (nanPattern.test(text)) {
+        return GenJsonValue.jsonNumber(NaN, span);
+    }
+    return GenJsonValue.jsonString(text, span);
+}
+
+function readWith<T>(text: string, name: string | undefined, f: (reader: YamlReader) => T): Either<ReadError, T> {
+    try {
+        return Either.right(f(new YamlReader({ name, text })));
+    } catch (e) {
+        if (e instanceof ReadError) {
+            return Either.left(e);
+        }
+        throw e;
+    }
+}
+
+/**
+ * Read every document in a YAML stream into JSON values, where
+ * each value remembers the region of the text it was read from.
+ */
+export function readYamlDocuments(text: string, opts: { name?: string } = {}): Either<ReadError, JsonValue[]> {
+    return readWith(text, opts.name, reader => reader.readStream());
+}
+
+/**
+ * Read YAML text containing a single document into a JSON value,
+ * where each value remembers the region of the text it was read
+ * from.
+ *
+ * Text with no documents is read as null.
+ */
+export function readYaml(text: string, opts: { name?: string } = {}): Either<ReadError, JsonValue> {
+    return readWith(text, opts.name, reader => {
+        const docs = reader.readStream();
+        if (docs.length > 1) {
+            throw new ReadError({ name: opts.name, text }, reader.getDocumentStarts()[1], 'expected a single document but saw another document');
+        }
+        const start = { offset: 0, line: 1, column: 1 };
+        return docs.length === 1 ? docs[0] : GenJsonValue.jsonNull({ source: { name: opts.name, text }, start, end: start });
+    });
+}
+
+/**
+ * Parser for YAML text, which interprets the text using the same
+ * specifications as {@link JsonParser}.
+ */
+export class YamlParser extends JsonParser {
+    protected readText(text: string, name?: string): JsonParseResult<JsonValue> {
+        return readYaml(text, { name }).mapBoth(err => new JsonParser.JsonSyntaxError(err), v => v);
+    }
+
+    /**
+     * Parse each document in the YAML stream as a member of the
+     * given type.
+     *
+     * Errors give the index of the document they were found in.
+     */
+    parseDocumentsAs<const S extends TySpec>(text: string, cls: S): Either<Error, SpecResult<S>[]> {
+        return this.withSetupCleanUp(() => {
+            return readYamlDocuments(text).mapBoth(err => new JsonParser.JsonSyntaxError(err), docs => docs)
+                .mapCollecting(docs => JsonSchema.genArraySchema(cls, r => r)(this, GenJsonValue.jsonArray(docs)));
+        });
+    }
+}
@@ -6,6 +6,10 @@ export {
 } from "https://deno.land/std@0.95.0/testing/asserts.ts";
 
 export {
+    index,
+    key,
     Test,
     testGroup,
+    testReadFails,
+    testSpan,
 } from './testlib.ts';
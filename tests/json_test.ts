@@ -8,17 +8,48 @@ import {
 } from './deps.ts';
 
 import {
+    allOf,
     anyOf,
     AnyTy,
+    decimalString,
+    enumOf,
+    epochMillis,
+    epochSeconds,
+    exactNumber,
+    field,
+    InlineSpec,
+    integer,
+    jsonClass,
+    JsonDumper,
     JsonParseError,
     JsonParser,
     JsonSchema,
+    lazy,
+    LazySpec,
+    mapEntries,
+    max,
+    maxLength,
+    min,
+    minLength,
+    multipleOf,
+    optional,
+    pattern,
+    pipe,
+    preprocess,
+    refine,
+    relativeURL,
     Schemas,
+    taggedUnion,
+    transform,
     tuple,
     TySpec,
+    typedSpec,
 } from '../mod.ts';
 
+import type { JsonValueRaw } from '../mod.ts';
+
 import {
+    Either,
     Maybe
 } from '../src/functional.ts';
 
@@ -123,11 +154,158 @@ const extraSchemas = Schemas.emptySchemas()
     .addSpec(alwaysEmptyObject, { load: JsonSchema.objectSchemaMap(_ => AnyTy, _ => new Object()) })
     .addSpec(alwaysEmptyString, { load: JsonSchema.stringSchema(_ => "") })
 
+const optionalSpec = Symbol('optionalSpec');
+const optionalSpecKeys = {
+    req: Number,
+    opt: JsonSchema.optional(Number),
+    def: JsonSchema.withDefault(Number, 7),
+    defFn: JsonSchema.withDefaultFn([Array, Number], () => []),
+};
+const optionalSchemas = Schemas.emptySchemas()
+    .addSpec(optionalSpec, {
+        description: getDesc => () => JsonSchema.describeKeys(optionalSpecKeys, getDesc),
+        load: JsonSchema.objectSchema(optionalSpecKeys, r => r)
+    });
+
+const rejectUnknown = Symbol('rejectUnknown');
+const stripUnknown = Symbol('stripUnknown');
+const passthroughUnknown = Symbol('passthroughUnknown');
+const restUnknown = Symbol('restUnknown');
+const defaultUnknown = Symbol('defaultUnknown');
+const policySchemas = Schemas.emptySchemas()
+    .addSpec(rejectUnknown, { load: JsonSchema.objectSchema({ p: Boolean }, r => r, { unknownKeys: 'reject' }) })
+    .addSpec(stripUnknown, { load: JsonSchema.objectSchema({ p: Boolean }, r => r, { unknownKeys: 'strip' }) })
+    .addSpec(passthroughUnknown, { load: JsonSchema.objectSchema({ p: Boolean }, r => r, { unknownKeys: 'passthrough' }) })
+    .addSpec(restUnknown, { load: JsonSchema.objectSchema({ p: Boolean }, r => r, { unknownKeys: { rest: 'extra' } }) })
+    .addSpec(defaultUnknown, { load: JsonSchema.objectSchema({ p: Boolean }, r => r) });
+
 const parserBasic = new JsonParser(basicSchemas);
 const basic2Parser = new JsonParser(basic2SchemaMap);
 const myArrayParser = new JsonParser(myArraySchemas);
 const customArrayParser = new JsonParser(customArraySchemas);
 const parserWithExtra = new JsonParser(extraSchemas);
+const optionalParser = new JsonParser(optionalSchemas);
+const policyParser = new JsonParser(policySchemas);
+const stripPolicyParser = new JsonParser(policySchemas, false, { unknownKeys: 'strip' });
+const jsoncParser = new JsonParser(policySchemas, false, { dialect: 'jsonc' });
+const json5Parser = new JsonParser(policySchemas, false, { dialect: 'json5' });
+
+enum Level {
+    Debug,
+    Info,
+    Warn = 10,
+}
+
+enum Colour {
+    Red = "red",
+    Green = "green",
+}
+
+class Circle {
+    readonly type = "circle";
+    radius: number;
+
+    constructor(radius: number) {
+        this.radius = radius;
+    }
+}
+
+class Square {
+    readonly type = "square";
+    side: number;
+
+    constructor(side: number) {
+        this.side = side;
+    }
+}
+
+const shapeSchemas = Schemas.emptySchemas()
+    .addSpec(Circle, {
+        load: JsonSchema.objectSchema({ type: "circle", radius: Number }, o => new Circle(o.radius)),
+        dump: JsonDumper.objectDumper({ type: "circle", radius: Number }),
+    })
+    .addSpec(Square, {
+        load: JsonSchema.objectSchema({ type: "square", side: Number }, o => new Square(o.side)),
+        dump: JsonDumper.objectDumper({ type: "square", side: Number }),
+    });
+
+const shapeParser = new JsonParser(shapeSchemas);
+
+const shape = taggedUnion("type", { circle: Circle, square: Square });
+
+class TreeNode {
+    value: number;
+    children: TreeNode[];
+
+    constructor(value: number, children: TreeNode[]) {
+        this.value = value;
+        this.children = children;
+    }
+}
+
+const treeSchemas = Schemas.emptySchemas().addSpec(TreeNode, {
+    description: getDesc => () => `tree node with children: ${getDesc([Array, TreeNode])}`,
+    load: JsonSchema.objectSchema({ value: Number, children: [Array, TreeNode] }, o => new TreeNode(o.value, o.children)),
+    dump: JsonDumper.objectDumper({ value: Number, children: [Array, TreeNode] }),
+});
+
+const treeParser = new JsonParser(treeSchemas);
+
+function deepTree(depth: number): string {
+    let res = '{"value": 0, "children": []}';
+    for (let i = 1; i < depth; i++) {
+        res = `{"value": ${i}, "children": [${res}]}`;
+    }
+    return res;
+}
+
+type NumExpr = { op: "num", value: number };
+type AddExpr = { op: "add", args: Expr[] };
+type Expr = NumExpr | AddExpr;
+
+const numExpr = typedSpec<NumExpr>("num");
+const addExpr = typedSpec<AddExpr>("add");
+const expr = taggedUnion("op", { num: numExpr, add: addExpr });
+
+const exprParser = new JsonParser(Schemas.emptySchemas()
+    .addSpec(numExpr, { description: "number", load: JsonSchema.objectSchema({ op: "num", value: Number }, o => o) })
+    .addSpec(addExpr, {
+        description: getDesc => () => `sum of ${getDesc([Array, expr])}`,
+        load: JsonSchema.objectSchema({ op: "add", args: [Array, expr] }, o => o),
+    }));
+
+type Nested = number | Nested[];
+
+const nested: LazySpec<Nested> = lazy(() => [anyOf, Number, [Array, nested]]);
+
+class Money {
+    cents: number;
+
+    constructor(cents: number) {
+        this.cents = cents;
+    }
+}
+
+type Entity = { id: number, createdAt: Date };
+
+const entity = typedSpec<Entity>("entity");
+const named = typedSpec<{ name: string }>("named");
+const flagged = typedSpec<{ flag: boolean }>("flagged");
+
+const entitySchemas = Schemas.emptySchemas()
+    .addSpec(entity, {
+        description: "entity",
+        load: JsonSchema.objectSchema({ id: Number, createdAt: Date }, o => o),
+        dump: JsonDumper.objectDumper({ id: Number, createdAt: Date }),
+    })
+    .addSpec(named, {
+        description: "named",
+        load: JsonSchema.objectSchema({ name: String }, o => o),
+        dump: JsonDumper.objectDumper({ name: String }),
+    })
+    .addSpec(flagged, { description: "flagged", load: JsonSchema.objectSchema({ flag: Boolean }, o => o) });
+
+const entityParser = new JsonParser(entitySchemas);
 
 const anyOfMixElems: TySpec = [anyOf, alwaysEmptyArray, negatedBoolean, nullBecomes5, alwaysZero, alwaysEmptyObject, alwaysEmptyString];
 
@@ -197,14 +375,100 @@ testGroup("parseAsOrThrow",
     ),
 
     testGroup("additional standard types",
+        testGroup("Date",
+            testParseAsOrThrow("date", '"2021-12-31"', Date, new Date(Date.UTC(2021, 11, 31))),
+            testParseAsOrThrow("date-time", '"2021-12-31T23:59:59.5Z"', Date, new Date(Date.UTC(2021, 11, 31, 23, 59, 59, 500))),
+            testParseAsOrThrow("date-time with offset", '"2021-12-31 23:00:00+01:30"', Date, new Date(Date.UTC(2021, 11, 31, 21, 30))),
+            testParseAsOrThrowFails("not a date", '"yesterday"', Date, JsonParser.JsonTypeError, "But this is a string that is not an ISO 8601 date"),
+            testParseAsOrThrowFails("invalid day", '"2021-02-29"', Date, JsonParser.JsonTypeError, "But this is a string that is not an ISO 8601 date"),
+            testParseAsOrThrowFailsWithTypeError("not a string", '0', Date),
+            testParseAsOrThrow("epoch milliseconds", '1640995199500', epochMillis, new Date(Date.UTC(2021, 11, 31, 23, 59, 59, 500))),
+            testParseAsOrThrow("epoch seconds", '1640995199.5', epochSeconds, new Date(Date.UTC(2021, 11, 31, 23, 59, 59, 500))),
+            testParseAsOrThrow("string or epoch seconds", '[0, "1970-01-02"]', [Array, [anyOf, Date, epochSeconds]], [new Date(0), new Date(86400000)]),
+            testParseAsOrThrowFails("epoch out of range", '1e20', epochSeconds, JsonParser.JsonTypeError, "But this is a number that is out of range for a date"),
+            testParseAsOrThrowFailsWithTypeError("epoch, not a number", '"0"', epochMillis, "But this is a string"),
+        ),
+
+        testGroup("BigInt",
+            testParseAsOrThrow("from a string", '"-12345678901234567890"', BigInt, -12345678901234567890n),
+            testParseAsOrThrow("from a number", '42', BigInt, 42n),
+            testParseAsOrThrowFails("string that is not an integer", '"1.5"', BigInt, JsonParser.JsonTypeError, "But this is a string that is not an integer"),
+            testParseAsOrThrowFails("empty string", '""', BigInt, JsonParser.JsonTypeError, "But this is a string that is not an integer"),
+            testParseAsOrThrowFails("number that is not an integer", '1.5', BigInt, JsonParser.JsonTypeError, "But this is a number that is not an integer"),
+            testParseAsOrThrow("large number", '[12345678901234567890, -9007199254740993]', [Array, BigInt], [12345678901234567890n, -9007199254740993n]),
+            testParseAsOrThrow("number with an exponent", '1e3', BigInt, 1000n),
+            testParseAsOrThrowFails("large number with an exponent", '1e30', BigInt, JsonParser.JsonTypeError, "But this is a number that is too large to read exactly (use a string instead)"),
+            testParseAsOrThrowFailsWithTypeError("not a string or number", 'true', BigInt, "But this is a boolean"),
+        ),
+
+        testGroup("decimalString",
+            testParseAsOrThrow("keeps every digit", '[0.1000000000000000055, 12345678901234567890, 1.50, -2e-3]', [Array, decimalString],
+                ["0.1000000000000000055", "12345678901234567890", "1.50", "-2e-3"]),
+            testParseAsOrThrow("from a string", '"-0.10"', decimalString, "-0.10"),
+            testParseAsOrThrowFails("string that is not a decimal number", '"1,5"', decimalString, JsonParser.JsonTypeError, "But this is a string that is not a decimal number"),
+            testParseAsOrThrowWithParser(new JsonParser(undefined, false, { dialect: 'json5' }), "JSON5 numbers", '[.5, +1, 0x10]', [Array, decimalString], ["0.5", "1", "16"]),
+            testParseAsOrThrowFails("not finite", 'Infinity', decimalString, JsonParser.JsonSyntaxError),
+            testParseAsOrThrowFailsWithTypeError("not a number or string", 'true', decimalString, "But this is a boolean"),
+        ),
+
+        testGroup("exactNumber",
+            testParseAsOrThrow("exact", '[0.1, 1.50, 9007199254740992, 1e300]', [Array, exactNumber], [0.1, 1.5, 9007199254740992, 1e300]),
+            testParseAsOrThrowFails("integer that loses precision", '9007199254740993', exactNumber, JsonParser.JsonTypeError, `
+When trying to read a value for specification: number (without loss of precision)
+I saw: 9007199254740993
+But this is a number that cannot be read without losing precision
+`),
+            testParseAsOrThrowFails("decimal that loses precision", '0.1000000000000000055', exactNumber, JsonParser.JsonTypeError, "But this is a number that cannot be read without losing precision"),
+            testParseAsOrThrowFails("too large", '1e400', exactNumber, JsonParser.JsonTypeError, "But this is a number that cannot be read without losing precision"),
+            testParseAsOrThrowFails("too small", '1e-400', exactNumber, JsonParser.JsonTypeError, "But this is a number that cannot be read without losing precision"),
+            testParseAsOrThrow("Number allows loss of precision", '9007199254740993', Number, 9007199254740992),
+        ),
+
+        testGroup("URL",
+            testParseAsOrThrow("absolute", '"https://example.com/a?b=c"', URL, new URL("https://example.com/a?b=c")),
+            testParseAsOrThrowFails("relative", '"/a"', URL, JsonParser.JsonTypeError, "But this is a string that is not an absolute URL"),
+            testParseAsOrThrow("relative with a base", '["../c", "/d", "https://example.org/"]', [Array, relativeURL("https://example.com/a/b")],
+                [new URL("https://example.com/c"), new URL("https://example.com/d"), new URL("https://example.org/")]),
+            testParseAsOrThrowFails("relative with a base, but invalid", '"http://"', relativeURL("https://example.com/"), JsonParser.JsonTypeError, "But this is a string that is not a URL"),
+            new Test("base must be absolute", () => {
+                assertThrows(() => relativeURL("/a"), TypeError);
+            }),
+        ),
+
+        testGroup("RegExp",
+            testParseAsOrThrow("pattern", '"^a+$"', RegExp, /^a+$/),
+            testParseAsOrThrowFails("invalid pattern", '"a("', RegExp, JsonParser.JsonTypeError, "But this is a string that is not a valid regular expression (Unterminated group)"),
+            testParseAsOrThrowFailsWithTypeError("not a string", '1', RegExp, "But this is a number"),
+        ),
+
         testGroup("Map",
             testParseAsOrThrow('empty map', '{}', Map, new Map()),
             testParseAsOrThrow('nonempty map', '{"k": 7}', Map, new Map([['k', 7]])),
             testParseAsOrThrow('map with string keys', '{"k": true}', [Map, String], new Map([['k', true]])),
             testParseAsOrThrow('map with boolean values', '{"k": true}', [Map, String, Boolean], new Map([['k', true]])),
             testParseAsOrThrowFailsWithTypeError('map with boolean values, but with a number', '{"k": 1}', [Map, String, Boolean]),
-            testParseAsOrThrowFails('map with boolean keys', '{"k": 1}', [Map, Boolean], JsonParser.UnknownSpecError),
-            testParseAsOrThrowFails('map with boolean keys and boolean values', '{"k": 1}', [Map, Boolean, Boolean], JsonParser.UnknownSpecError),
+            testParseAsOrThrow('map with number keys', '{"1": true, "-2.5e1": false}', [Map, Number, Boolean], new Map([[1, true], [-25, false]])),
+            testParseAsOrThrow('map with boolean keys', '{"true": 1}', [Map, Boolean], new Map([[true, 1]])),
+            testParseAsOrThrow('map with date keys', '{"2021-01-01": 1}', [Map, Date, Number], new Map([[new Date(Date.UTC(2021, 0, 1)), 1]])),
+            testParseAsOrThrow('map with enum keys', '{"debug": 1, "0": 2}', [Map, enumOf("debug", 0), Number], new Map<unknown, number>([[0, 2], ["debug", 1]])),
+            testParseAsOrThrow('map with string keys that look like numbers', '{"1": true}', [Map, String, Boolean], new Map([['1', true]])),
+            testParseAsOrThrowFails('map with number keys, but with a string key', '{"k": true}', [Map, Number, Boolean], JsonParser.JsonTypeError, `In the name of key: "k"
+When trying to read a value for specification: number
+I saw: "k"
+But this is a string`),
+            testParseAsOrThrowFails('map with integer keys, but with a fraction', '{"1.5": true}', [Map, integer, Boolean], JsonParser.ConstraintError, 'In the name of key: "1.5"'),
+            testParseAsOrThrowFails('map with boolean keys and boolean values, but with a number value', '{"true": 1}', [Map, Boolean, Boolean], JsonParser.JsonTypeError, 'In key: "true"'),
+        ),
+
+        testGroup("mapEntries",
+            testParseAsOrThrow('empty array', '[]', mapEntries, new Map()),
+            testParseAsOrThrow('pairs', '[[1, "a"], [2, "b"]]', [mapEntries, Number, String], new Map([[1, "a"], [2, "b"]])),
+            testParseAsOrThrow('object keys', '[[{"k": 1}, true]]', [mapEntries, [Object, Number], Boolean], new Map([[{ k: 1 }, true]])),
+            testParseAsOrThrowFails('wrong key', '[[1, "a"], ["x", "b"]]', [mapEntries, Number, String], JsonParser.JsonTypeError, `At index 1
+When trying to read a value for specification: [Symbol(tuple), number, string]
+I saw: ["x","b"]
+At index 0`),
+            testParseAsOrThrowFails('not a pair', '[[1, "a", 2]]', [mapEntries, Number, String], JsonParser.JsonTypeError, "But this is an array of length 3"),
         ),
 
         testGroup("Set",
@@ -220,7 +484,22 @@ testGroup("parseAsOrThrow",
             testGroup("boolean or string",
                 testParseAsOrThrow("true", 'true', [anyOf, Boolean, String], true),
                 testParseAsOrThrow('"test"', '"test"', [anyOf, Boolean, String], "test"),
-                testParseAsOrThrowFailsWithTypeError("a number", '1', [anyOf, Boolean, String]),
+                testParseAsOrThrowFails("a number", '1', [anyOf, Boolean, String], JsonParser.NoMatchingAlternativeError, `
+When trying to read a value for specification: [Symbol(anyOf), boolean, string]
+I saw: 1
+But this does not match any of the 2 alternatives:
+- alternative 1:
+  When trying to read a value for specification: boolean
+  I saw: 1
+  But this is a number
+- alternative 2:
+  When trying to read a value for specification: string
+  I saw: 1
+  But this is a number
+At line 1, column 1:
+> 1 | 1
+    | ^
+`, true),
             ),
             testGroup("empty array or negated boolean or null becomes 5 or always zero or always empty string or always empty object",
                 testParseAsOrThrowWithParser(parserWithExtra, '[[3], true, null, 1, "test", {"k": 1}]', '[[3], true, null, 1, "test", {"k": 1}]', [Array, anyOfMixElems], [[], false, 5, 0, "", {}]),
@@ -229,7 +508,97 @@ testGroup("parseAsOrThrow",
                 testParseAsOrThrow('[true, 1, "test"]', '[true, 1, "test"]', [Array, [anyOf, Boolean, String, Number]], [true, 1, "test"]),
                 testParseAsOrThrow('"test"', '"test"', [anyOf, Boolean, String], "test"),
                 assertParseFailsWithTypeError("a number", basicParser, '1', [Array, [anyOf, Boolean, String, Number]], [Array, [anyOf, Boolean, String, Number]], 'number', 1),
-                assertParseFailsWithTypeError("no matching elements", basicParser, '[null]', [Array, [anyOf, Boolean, String, Number]], [anyOf, Boolean, String, Number], 'null', null),
+                testParseAsOrThrowFails("no matching elements", '[null]', [Array, [anyOf, Boolean, String, Number]], JsonParser.NoMatchingAlternativeError, `
+At index 0
+When trying to read a value for specification: [Symbol(anyOf), boolean, string, number]
+I saw: null
+But this does not match any of the 3 alternatives:`),
+            ),
+            testGroup("reporting the alternatives",
+                testParseAsOrThrowFailsWithParser(shapeParser, "the alternative that got furthest is highlighted", '{"type": "square", "side": "big"}', [anyOf, Number, Circle, Square], JsonParser.NoMatchingAlternativeError, `
+When trying to read a value for specification: [Symbol(anyOf), number, Circle, Square]
+I saw: {"type":"square","side":"big"}
+But this does not match any of the 3 alternatives:
+- alternative 1:
+  When trying to read a value for specification: number
+  I saw: {"type":"square","side":"big"}
+  But this is an object
+- alternative 2:
+  When trying to read a value for specification: Circle
+  I saw: {"type":"square","side":"big"}
+  In key: "type"
+  When trying to read a value for specification: "circle"
+  I saw: "square"
+  But this is not one of the allowed values: "circle"
+  At line 1, column 10
+- alternative 3 (closest match):
+  When trying to read a value for specification: Square
+  I saw: {"type":"square","side":"big"}
+  In key: "side"
+  When trying to read a value for specification: number
+  I saw: "big"
+  But this is a string
+  At line 1, column 28
+At line 1, column 1:
+> 1 | {"type": "square", "side": "big"}
+    | ^
+`, true),
+                testParseAsOrThrowFails("a constraint gets further than a type error", '0', [anyOf, String, min(1)], JsonParser.NoMatchingAlternativeError, "- alternative 2 (closest match):"),
+                testParseAsOrThrowFails("nested alternatives are indented", '[1]', [anyOf, String, [Array, [anyOf, Boolean, String]]], JsonParser.NoMatchingAlternativeError, `
+- alternative 2 (closest match):
+  When trying to read a value for specification: Array of [Symbol(anyOf), boolean, string]
+  I saw: [1]
+  At index 0
+  When trying to read a value for specification: [Symbol(anyOf), boolean, string]
+  I saw: 1
+  But this does not match any of the 2 alternatives:
+  - alternative 1:
+    When trying to read a value for specification: boolean
+    I saw: 1
+    But this is a number
+`),
+                testParseAsOrThrowFails("an unknown specification as an alternative", '"x"', [anyOf, MyArray, Number], JsonParser.NoMatchingAlternativeError, `
+When trying to read a value for specification: [Symbol(anyOf), MyArray, number]
+I saw: "x"
+But this does not match any of the 2 alternatives:
+- alternative 1:
+  When trying to read a value for specification: MyArray
+  I saw: "x"
+  But I don't know how to parse a value for the specification: MyArray
+- alternative 2 (closest match):
+  When trying to read a value for specification: number
+  I saw: "x"
+  But this is a string
+At line 1, column 1:
+> 1 | "x"
+    | ^
+`, true),
+                new Test("an unknown specification is never the closest match", () => {
+                    const err = basicParser.parseAs('"x"', [anyOf, Number, MyArray, Boolean]).unwrapLeft();
+                    assert(err instanceof JsonParser.NoMatchingAlternativeError);
+                    assertEquals(err.closest, undefined);
+                }),
+                new Test("error fields", () => {
+                    const err = basicParser.parseAs('"a"', [anyOf, Number, minLength(2)]).unwrapLeft();
+                    assert(err instanceof JsonParser.NoMatchingAlternativeError);
+                    assertEquals(err.closest, 1);
+                    assertEquals(err.errors.map(e => e.constructor), [JsonParser.JsonTypeError, JsonParser.ConstraintError]);
+                }),
+                new Test("every error of each alternative is reported when collecting errors", () => {
+                    const err = shapeParser.parseAllErrors('{"type": "square", "side": "big", "x": 1}', [anyOf, Number, Square]).unwrapLeft();
+                    assertStringIncludes(err.message, `- alternative 2 (closest match):
+  When trying to read a value for specification: Square
+  I saw: {"type":"square","side":"big","x":1}
+  In key: "side"
+  When trying to read a value for specification: number
+  I saw: "big"
+  But this is a string
+  At line 1, column 28
+
+  When trying to read a value for specification: Square
+  I saw: {"type":"square","side":"big","x":1}
+  But I saw the following keys which are not accepted by the specification: "x"`);
+                }),
             ),
         ),
 
@@ -263,6 +632,268 @@ testGroup("parseAsOrThrow",
         ),
     ),
 
+    testGroup("literals",
+        testParseAsOrThrow("string", '"debug"', "debug", "debug"),
+        testParseAsOrThrow("number", '42', 42, 42),
+        testParseAsOrThrow("boolean", 'false', false, false),
+        testParseAsOrThrow("in anyOf", '["info", 1]', [Array, [anyOf, "debug", "info", Number]], ["info", 1]),
+        testParseAsOrThrowFails("different string", '"info"', "debug", JsonParser.UnexpectedValueError, 'But this is not one of the allowed values: "debug"'),
+        testParseAsOrThrowFails("different type", '"42"', 42, JsonParser.UnexpectedValueError, 'But this is not one of the allowed values: 42'),
+        testParseAsOrThrowFails("arguments are not accepted", '"a"', ["a", String], Schemas.WrongNumberOfArgumentsError),
+    ),
+
+    testGroup("enumOf",
+        testParseAsOrThrow("values", '"warn"', enumOf("debug", "info", "warn"), "warn"),
+        testParseAsOrThrow("mixed values", '[null, 1, "a"]', [Array, enumOf(null, 1, "a")], [null, 1, "a"]),
+        testParseAsOrThrowFails("not a value", '"error"', enumOf("debug", "info", "warn"), JsonParser.UnexpectedValueError, `
+When trying to read a value for specification: one of "debug", "info", "warn"
+I saw: "error"
+But this is not one of the allowed values: "debug", "info", "warn"
+At line 1, column 1:
+> 1 | "error"
+    | ^
+`, true),
+        testParseAsOrThrowFails("not a primitive", '["debug"]', enumOf("debug"), JsonParser.UnexpectedValueError),
+        testParseAsOrThrow("numeric enum", '[0, 10]', [Array, enumOf(Level)], [Level.Debug, Level.Warn]),
+        testParseAsOrThrowFails("numeric enum, not a member", '"Debug"', enumOf(Level), JsonParser.UnexpectedValueError, "But this is not one of the allowed values: 0, 1, 10"),
+        testParseAsOrThrow("string enum", '"green"', enumOf(Colour), Colour.Green),
+        testParseAsOrThrowFails("string enum, member name", '"Green"', enumOf(Colour), JsonParser.UnexpectedValueError, 'But this is not one of the allowed values: "red", "green"'),
+        new Test("error fields", () => {
+            const err = basicParser.parseAs('"b"', enumOf("a", 1)).unwrapLeft();
+            assert(err instanceof JsonParser.UnexpectedValueError);
+            assertEquals(err.allowed, ["a", 1]);
+        }),
+    ),
+
+    testGroup("allOf",
+        testParseAsOrThrowWithParser(entityParser, "merges the results", '{"id": 1, "createdAt": "2021-01-01", "name": "test"}', [allOf, entity, named], { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test" }),
+        testParseAsOrThrowWithParser(entityParser, "nested", '{"id": 1, "createdAt": "2021-01-01", "name": "test", "flag": true}', [allOf, entity, [allOf, named, flagged]], { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test", flag: true }),
+        testParseAsOrThrowWithParser(entityParser, "keys known to an alternative", '{"id": 1, "createdAt": "2021-01-01", "name": "test"}', [allOf, entity, [anyOf, named, flagged]], { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test" }),
+        testParseAsOrThrowWithParser(entityParser, "keys known to a transformed member", '{"id": 1, "createdAt": "2021-01-01", "name": "test"}', [allOf, entity, transform(named, x => x)], { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test" }),
+        testParseAsOrThrowWithParser(entityParser, "keys known to a preprocessed member", '{"id": 1, "createdAt": "2021-01-01", "name": "test"}', [allOf, entity, preprocess(x => x, named)], { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test" }),
+        testParseAsOrThrowFailsWithParser(entityParser, "key unknown to every member", '{"id": 1, "createdAt": "2021-01-01", "name": "test", "extra": 1}', [allOf, entity, named], JsonParser.UnknownKeysError, `When trying to read a value for specification: entity
+I saw: {"id":1,"createdAt":"2021-01-01","name":"test","extra":1}
+But I saw the following keys which are not accepted by the specification: "extra"`),
+        testParseAsOrThrowFailsWithParser(entityParser, "error from the member that rejected the value", '{"id": 1, "createdAt": "2021-01-01", "name": 1}', [allOf, entity, named], JsonParser.JsonTypeError, `When trying to read a value for specification: named
+I saw: {"id":1,"createdAt":"2021-01-01","name":1}
+In key: "name"`),
+        testParseAsOrThrowFailsWithParser(entityParser, "missing key", '{"id": 1, "createdAt": "2021-01-01"}', [allOf, entity, named], JsonParser.MissingKeysError, '"name"'),
+        testParseAsOrThrowFailsWithParser(entityParser, "not an object", '[]', [allOf, entity, named], JsonParser.JsonTypeError, "But this is an array"),
+        new Test("passes through keys unknown to every member", () => {
+            const parser = new JsonParser(entitySchemas, false, { unknownKeys: 'passthrough' });
+            const r = parser.parseAsOrThrow('{"name": "test", "flag": true, "extra": 1}', [allOf, named, flagged]);
+            assertEquals(r, { name: "test", flag: true, extra: 1 });
+        }),
+    ),
+
+    testGroup("taggedUnion",
+        testParseAsOrThrowWithParser(shapeParser, "selects the branch by the tag", '[{"type": "circle", "radius": 1}, {"type": "square", "side": 2}]', [Array, shape], [new Circle(1), new Square(2)]),
+        testParseAsOrThrowFailsWithParser(shapeParser, "unknown tag", '{"type": "triangle"}', shape, JsonParser.UnexpectedValueError, `
+When trying to read a value for specification: union tagged by "type": "circle" (Circle), "square" (Square)
+I saw: {"type":"triangle"}
+In key: "type"
+When trying to read a value for specification: one of "circle", "square"
+I saw: "triangle"
+But this is not one of the allowed values: "circle", "square"
+At line 1, column 10:
+> 1 | {"type": "triangle"}
+    |          ^
+`, true),
+        testParseAsOrThrowFailsWithParser(shapeParser, "tag is not a string", '{"type": 1}', shape, JsonParser.UnexpectedValueError, 'In key: "type"'),
+        testParseAsOrThrowFailsWithParser(shapeParser, "missing tag", '{"radius": 1}', shape, JsonParser.MissingKeysError, 'But the following keys are required and were not specified: "type"'),
+        testParseAsOrThrowFailsWithParser(shapeParser, "not an object", '"circle"', shape, JsonParser.JsonTypeError, "But this is a string"),
+        testParseAsOrThrowFailsWithParser(shapeParser, "keys from other branches are not accepted", '{"type": "square", "radius": 1}', shape, JsonParser.UnknownKeysError, '"radius"'),
+        new Test("errors are only from the selected branch", () => {
+            const err = shapeParser.parseAs('{"type": "square", "side": "big"}', shape).unwrapLeft();
+            assertEquals(err.message, `When trying to read a value for specification: union tagged by "type": "circle" (Circle), "square" (Square)
+I saw: {"type":"square","side":"big"}
+When trying to read a value for specification: Square
+I saw: {"type":"square","side":"big"}
+In key: "side"
+When trying to read a value for specification: number
+I saw: "big"
+But this is a string
+At line 1, column 28:
+> 1 | {"type": "square", "side": "big"}
+    |                            ^`);
+        }),
+    ),
+
+    testGroup("recursive specifications",
+        testParseAsOrThrowWithParser(treeParser, "class referring to itself", '{"value": 1, "children": [{"value": 2, "children": []}]}', TreeNode,
+            new TreeNode(1, [new TreeNode(2, [])])),
+        testParseAsOrThrowWithParser(exprParser, "mutually recursive symbols", '{"op": "add", "args": [{"op": "num", "value": 1}, {"op": "add", "args": []}]}', expr,
+            { op: "add", args: [{ op: "num", value: 1 }, { op: "add", args: [] }] }),
+        testParseAsOrThrow("lazy", '[1, [2, [3]]]', nested, [1, [2, [3]]]),
+        testParseAsOrThrowFailsWithParser(treeParser, "error in a nested node", '{"value": 1, "children": [{"value": "2", "children": []}]}', TreeNode, JsonParser.JsonTypeError, `
+When trying to read a value for specification: tree node with children: [Array, TreeNode]
+I saw: {"value":1,"children":[{"value":"2","children":[]}]}
+In key: "children"
+When trying to read a value for specification: Array of TreeNode
+I saw: [{"value":"2","children":[]}]
+At index 0
+When trying to read a value for specification: tree node with children: [Array, TreeNode]
+I saw: {"value":"2","children":[]}
+In key: "value"
+When trying to read a value for specification: number
+I saw: "2"
+But this is a string
+At line 1, column 37:
+> 1 | {"value": 1, "children": [{"value": "2", "children": []}]}
+    |                                     ^
+`, true),
+        new Test("deep recursion", () => {
+            let node = treeParser.parseAsOrThrow(deepTree(500), TreeNode);
+            for (let i = 499; i > 0; i--) {
+                assertEquals([node.value, node.children.length], [i, 1]);
+                node = node.children[0];
+            }
+            assertEquals(node, new TreeNode(0, []));
+        }),
+        new Test("deep recursion with mutually recursive symbols", () => {
+            const json = '{"op": "add", "args": ['.repeat(200) + '{"op": "num", "value": 1}' + ']}'.repeat(200);
+            let e: Expr = exprParser.parseAsOrThrow(json, expr);
+            let depth = 0;
+            while (e.op === "add") {
+                e = e.args[0];
+                depth++;
+            }
+            assertEquals([depth, e], [200, { op: "num", value: 1 }]);
+        }),
+        new Test("deep recursion with lazy", () => {
+            assertEquals(basicParser.parseAsOrThrow('['.repeat(50) + ']'.repeat(50), nested), JSON.parse('['.repeat(50) + ']'.repeat(50)));
+        }),
+        new Test("lazy specifications are only resolved when used", () => {
+            let resolved = 0;
+            const spec = lazy(() => {
+                resolved++;
+                return Number;
+            });
+            assertEquals(resolved, 0);
+            assertEquals(basicParser.parseAsOrThrow('[1, 2]', [Array, spec]), [1, 2]);
+            assertEquals(resolved, 1);
+        }),
+        testGroup("descriptions",
+            new Test("class referring to itself", () => {
+                assertEquals(treeParser._getDescriptionForSpec(TreeNode), "tree node with children: [Array, TreeNode]");
+            }),
+            new Test("mutually recursive symbols", () => {
+                assertEquals(exprParser._getDescriptionForSpec(expr), 'union tagged by "op": "num" (number), "add" (sum of [Array, ...])');
+            }),
+            new Test("lazy", () => {
+                assertEquals(basicParser._getDescriptionForSpec(nested), "[Symbol(anyOf), number, Array of ...]");
+            }),
+            new Test("named lazy", () => {
+                assertEquals(basicParser._getDescriptionForSpec([Array, lazy(() => nested, "nested numbers")]), "Array of nested numbers");
+            }),
+        ),
+    ),
+
+    testGroup("refinements",
+        testGroup("integer",
+            testParseAsOrThrow("integer", '-3', integer, -3),
+            testParseAsOrThrowFails("fraction", '1.5', integer, JsonParser.ConstraintError, "But this does not satisfy the constraint: integer"),
+            testParseAsOrThrowFailsWithTypeError("not a number", '"1"', integer, "But this is a string"),
+        ),
+        testGroup("min and max",
+            testParseAsOrThrow("at the minimum", '1', min(1), 1),
+            testParseAsOrThrow("at the maximum", '65535', max(65535), 65535),
+            testParseAsOrThrowFails("below the minimum", '0', min(1), JsonParser.ConstraintError, "But this does not satisfy the constraint: at least 1"),
+            testParseAsOrThrowFails("above the maximum", '65536', max(65535), JsonParser.ConstraintError, "But this does not satisfy the constraint: at most 65535"),
+            testParseAsOrThrow("combined", '[1, 80]', [Array, max(65535, min(1, integer))], [1, 80]),
+            testParseAsOrThrowFails("combined, not an integer", '1.5', max(65535, min(1, integer)), JsonParser.ConstraintError, "But this does not satisfy the constraint: integer"),
+            testParseAsOrThrowFailsWithTypeError("not a number", '"1"', min(1), "But this is a string"),
+        ),
+        testGroup("multipleOf",
+            testParseAsOrThrow("multiple", '15', multipleOf(5), 15),
+            testParseAsOrThrowFails("not a multiple", '7', multipleOf(5), JsonParser.ConstraintError, "But this does not satisfy the constraint: multiple of 5"),
+            testParseAsOrThrow("fractional divisor", '0.07', multipleOf(0.01), 0.07),
+            testParseAsOrThrow("fractional divisor and value", '0.3', multipleOf(0.1), 0.3),
+            testParseAsOrThrow("fractional divisor, integer value", '12', multipleOf(0.25), 12),
+            testParseAsOrThrow("small values", '3e-7', multipleOf(1e-7), 3e-7),
+            testParseAsOrThrow("large values", '1e21', multipleOf(5), 1e21),
+            testParseAsOrThrowFails("not a multiple of a fractional divisor", '0.075', multipleOf(0.01), JsonParser.ConstraintError, "But this does not satisfy the constraint: multiple of 0.01"),
+            testParseAsOrThrowFails("multiple of zero", '0', multipleOf(0), JsonParser.ConstraintError),
+        ),
+        testGroup("string length",
+            testParseAsOrThrow("long enough", '"a"', minLength(1), "a"),
+            testParseAsOrThrowFails("too short", '""', minLength(1), JsonParser.ConstraintError, "But this does not satisfy the constraint: length at least 1"),
+            testParseAsOrThrowFails("too long", '"abcd"', maxLength(3), JsonParser.ConstraintError, "But this does not satisfy the constraint: length at most 3"),
+            testParseAsOrThrow("array length", '[1, 2]', maxLength(2, [Array, Number]), [1, 2]),
+            testParseAsOrThrowFails("array too long", '[1, 2, 3]', maxLength(2, [Array, Number]), JsonParser.ConstraintError, "length at most 2"),
+        ),
+        testGroup("pattern",
+            testParseAsOrThrow("matches", '"kebab-case"', pattern(/^[a-z-]+$/), "kebab-case"),
+            testParseAsOrThrow("global regular expressions match every time", '["a", "a"]', [Array, pattern(/a/g)], ["a", "a"]),
+            testParseAsOrThrowFails("does not match", '"Kebab"', pattern(/^[a-z-]+$/), JsonParser.ConstraintError, "But this does not satisfy the constraint: matches /^[a-z-]+$/"),
+            testParseAsOrThrowFails("empty string does not match", '""', minLength(1, pattern(/^[a-z-]*$/)), JsonParser.ConstraintError, "length at least 1"),
+        ),
+        testGroup("refine",
+            testParseAsOrThrow("satisfies the predicate", '4', refine(Number, x => x % 2 === 0, "even"), 4),
+            testParseAsOrThrowFails("fails the predicate", '3', refine(Number, x => x % 2 === 0, "even"), JsonParser.ConstraintError, `
+When trying to read a value for specification: number, even
+I saw: 3
+But this does not satisfy the constraint: even
+At line 1, column 1:
+> 1 | 3
+    | ^
+`, true),
+            testParseAsOrThrowFails("inner specification fails", '"3"', refine(Number, x => x % 2 === 0, "even"), JsonParser.JsonTypeError, `
+When trying to read a value for specification: number, even
+I saw: "3"
+When trying to read a value for specification: number
+I saw: "3"
+But this is a string
+At line 1, column 1:
+> 1 | "3"
+    | ^
+`, true),
+            testParseAsOrThrowFails("inside a key", '{"p": 0}', [Map, String, refine(Number, x => x > 0, "positive")], JsonParser.ConstraintError, 'In key: "p"'),
+            new Test("error fields", () => {
+                const err = basicParser.parseAs('[1, 0]', [Array, min(1)]).unwrapLeft();
+                assert(err instanceof JsonParser.ConstraintError);
+                assertEquals([err.constraint, err.pointer, err.expected], ["at least 1", "/1", "number, at least 1"]);
+            }),
+            new Test("arguments are not accepted", () => {
+                assertThrows(() => basicParser.parseAs('1', [min(1), Number]), Schemas.WrongNumberOfArgumentsError);
+            }),
+        ),
+    ),
+
+    testGroup("transformations",
+        testGroup("transform",
+            testParseAsOrThrow("converts the result", '[150]', [Array, transform(Number, cents => new Money(cents))], [new Money(150)]),
+            testParseAsOrThrowFails("inner specification fails", '"150"', transform(Number, cents => new Money(cents)), JsonParser.JsonTypeError, "But this is a string"),
+            testParseAsOrThrowFails("function throws", '{"n": "x1"}', [Map, String, transform(String, BigInt)], JsonParser.TransformError, `
+When trying to read a value for specification: Map with string keys and values matching string
+I saw: {"n":"x1"}
+In key: "n"
+When trying to read a value for specification: string
+I saw: "x1"
+But this could not be converted: Cannot convert x1 to a BigInt
+At line 1, column 7:
+> 1 | {"n": "x1"}
+    |       ^
+`, true),
+            new Test("error fields", () => {
+                const err = basicParser.parseAs('[1, 2]', [Array, transform(Number, x => { if (x > 1) { throw new RangeError("too big"); } return x; })]).unwrapLeft();
+                assert(err instanceof JsonParser.TransformError);
+                assert(err.cause instanceof RangeError);
+                assertEquals([err.reason, err.pointer], ["too big", "/1"]);
+            }),
+        ),
+        testGroup("pipe",
+            testParseAsOrThrow("applies each function in turn", '" HeLLo "', pipe(String, s => s.trim(), s => s.toLowerCase()), "hello"),
+            testParseAsOrThrowFails("a function throws", '"a"', pipe(String, s => s.length, n => { if (n < 2) { throw new Error(`length ${n}`); } return n; }), JsonParser.TransformError, "But this could not be converted: length 1"),
+        ),
+        testGroup("preprocess",
+            testParseAsOrThrow("converts the value before reading it", '1', preprocess(x => Array.isArray(x) ? x : [x], [Array, Number]), [1]),
+            testParseAsOrThrow("value already in the right form", '[1, 2]', preprocess(x => Array.isArray(x) ? x : [x], [Array, Number]), [1, 2]),
+            testParseAsOrThrowFails("errors are located at the original value", '{"a": "x"}', [Object, preprocess(x => [x], [Array, Number])], JsonParser.JsonTypeError, 'At index 0'),
+            testParseAsOrThrowFails("not converted to a JSON value", '1', preprocess(_ => undefined as any, Number), JsonParser.TransformError, "But this could not be converted: could not load JSON value: undefined"),
+        ),
+    ),
+
     testGroup("with schema",
         testGroup("Basic",
             testParseAsOrThrowWithParser(parserBasic, "ok", `{"p": true}`, Basic, new Basic(true)),
@@ -277,6 +908,65 @@ testGroup("parseAsOrThrow",
             testParseAsOrThrowWithParser(basic2Parser, "ok", `{"p": {"p": true}}`, Basic2, new Basic2(new Basic(true))),
         ),
 
+        testGroup("optional and default keys",
+            testParseAsOrThrowWithParser(optionalParser, "all keys present", `{"req": 1, "opt": 2, "def": 3, "defFn": [4]}`, optionalSpec, { req: 1, opt: 2, def: 3, defFn: [4] }),
+            testParseAsOrThrowWithParser(optionalParser, "only required key present", `{"req": 1}`, optionalSpec, { req: 1, def: 7, defFn: [] }),
+            testParseAsOrThrowWithParser(optionalParser, "inside an array", `[{"req": 1}]`, [Array, optionalSpec], [{ req: 1, def: 7, defFn: [] }]),
+            new Test("default function is called for each value", () => {
+                const [r1, r2] = optionalParser.parseAsOrThrow(`[{"req": 1}, {"req": 2}]`, [Array, optionalSpec]);
+                assert(r1.defFn !== r2.defFn);
+                assert(!('opt' in r1));
+            }),
+            assertParseFailsWithMissingKeys("missing required key", optionalParser, `{"opt": 2}`, optionalSpec, ["req"]),
+            assertParseFailsWithTypeError("optional key with wrong type", optionalParser, `{"req": 1, "opt": true}`, optionalSpec, Number, 'boolean', true),
+            assertParseFailsWithUnknownKeys("unknown key", optionalParser, `{"req": 1, "other": true}`, optionalSpec, ["other"]),
+            new Test("describeKeys", () => {
+                assertEquals(optionalParser._getDescriptionForSpec(optionalSpec),
+                    'object with keys: "req" (Number), "opt" (optional Number), "def" (Number, default: 7), "defFn" ([Array, Number], default: [])');
+            }),
+        ),
+
+        testGroup("unknown keys policy",
+            testGroup("on specification",
+                assertParseFailsWithUnknownKeys("reject", policyParser, `{"p": true, "q": 1}`, rejectUnknown, ["q"]),
+                testParseAsOrThrowWithParser(policyParser, "strip", `{"p": true, "q": 1}`, stripUnknown, { p: true }),
+                testParseAsOrThrowWithParser(policyParser, "passthrough", `{"p": true, "q": [1]}`, passthroughUnknown, { p: true, q: [1] }),
+                testParseAsOrThrowWithParser(policyParser, "rest", `{"p": true, "q": [1], "r": null}`, restUnknown, { p: true, extra: new Map<string, unknown>([["q", [1]], ["r", null]]) }),
+                testParseAsOrThrowWithParser(policyParser, "rest, with no unknown keys", `{"p": true}`, restUnknown, { p: true, extra: new Map() }),
+                assertParseFailsWithMissingKeys("strip, still fails with missing keys", policyParser, `{"q": 1}`, stripUnknown, ["p"]),
+                new Test("rest key cannot be a known key", () => {
+                    assertThrows(() => JsonSchema.objectSchema({ p: Boolean }, r => r, { unknownKeys: { rest: "p" } }), TypeError);
+                }),
+            ),
+            testGroup("on parser",
+                testParseAsOrThrowWithParser(stripPolicyParser, "strip by default", `{"p": true, "q": 1}`, defaultUnknown, { p: true }),
+                assertParseFailsWithUnknownKeys("specification overrides parser", stripPolicyParser, `{"p": true, "q": 1}`, rejectUnknown, ["q"]),
+                testParseAsOrThrowWithParser(stripPolicyParser, "applies to nested objects", `{"k": {"p": true, "q": 1}}`, [Map, String, defaultUnknown], new Map([["k", { p: true }]])),
+                assertParseFailsWithUnknownKeys("reject by default", policyParser, `{"p": true, "q": 1}`, defaultUnknown, ["q"]),
+                new Test("rest key cannot be a known key", () => {
+                    const schemas = Schemas.emptySchemas().addSpec(defaultUnknown, { load: JsonSchema.objectSchema({ extra: Number }, r => r) });
+                    const parser = new JsonParser(schemas, false, { unknownKeys: { rest: "extra" } });
+                    const err = parser.parseAs('{"extra": 1, "other": 2}', defaultUnknown).unwrapLeft();
+                    assert(err instanceof JsonParser.RestKeyClashError);
+                    assertEquals(err.key, "extra");
+                    assertStringIncludes(err.message, 'But the key "extra" cannot be used for unknown keys as it is already specified by the object with keys: "extra" (number)');
+                }),
+                new Test("rest key clash fails only its alternative", () => {
+                    const schemas = Schemas.emptySchemas().addSpec(defaultUnknown, { load: JsonSchema.objectSchema({ extra: Number }, r => r) });
+                    const parser = new JsonParser(schemas, false, { unknownKeys: { rest: "extra" } });
+                    assertEquals(parser.parseAs('{"extra": 1}', [anyOf, defaultUnknown, [Map, String, Number]]).unwrapRight(), new Map([["extra", 1]]));
+                }),
+            ),
+        ),
+
+        testGroup("dialects",
+            testParseAsOrThrowWithParser(jsoncParser, "JSONC", '{\n  // comment\n  "p": true,\n}', defaultUnknown, { p: true }),
+            testParseAsOrThrowWithParser(json5Parser, "JSON5", "{p: true, /* comment */}", defaultUnknown, { p: true }),
+            testParseAsOrThrowWithParser(json5Parser, "JSON5 numbers", "[0x10, .5, Infinity]", [Array, Number], [16, 0.5, Infinity]),
+            testParseAsOrThrowFails("JSON by default", "[1, // one\n]", AnyTy, JsonParser.JsonSyntaxError),
+            testParseAsOrThrowFailsWithParser(jsoncParser, "JSONC does not allow JSON5", "{p: true}", defaultUnknown, JsonParser.JsonSyntaxError, 'expected a string key but saw "p"'),
+        ),
+
         testGroup("MyArray",
             assertParseFailsWithTypeError("item is not of the correct type", myArrayParser, '{"k":1}', MyArray, MyArray, 'object', { k: 1 }),
             assertParseFailsWithTypeError("inner element is not of the correct type", myArrayParser, '[1]', [MyArray, Boolean], Boolean, 'number', 1),
@@ -341,6 +1031,28 @@ function assertParseFailsWithUnknownSpec(description: string, parser: JsonParser
     });
 }
 
+function assertParseErrorLocation(description: string, parser: JsonParser, toParse: string, spec: TySpec, path: (string | number)[], pointer: string, expected: string, actualType: string) {
+    return new Test(description, () => {
+        const actual = parser.parseAs(toParse, spec);
+        assert(actual.isLeft(), "expected the parse to fail but it didn't");
+        const err = actual.unwrapLeft() as JsonParseError;
+        assertEquals(err.path, path);
+        assertEquals(err.pointer, pointer);
+        assertEquals(err.expected, expected);
+        assertEquals(err.actualType, actualType);
+    });
+}
+
+function assertParseAllErrors(description: string, parser: JsonParser, toParse: string, spec: TySpec, expectedClasses: any[]) {
+    return new Test(description, () => {
+        const actual = parser.parseAllErrors(toParse, spec);
+        assert(actual.isLeft(), "expected the parse to fail but it didn't");
+        const err = actual.unwrapLeft();
+        assertEquals(err.constructor, JsonParser.AggregateParseError);
+        assertEquals((err as InstanceType<typeof JsonParser.AggregateParseError>).errors.map(e => e.constructor), expectedClasses);
+    });
+}
+
 class Empty { }
 
 class Person {
@@ -361,6 +1073,14 @@ const personParser = new JsonParser(Schemas.emptySchemas().addSpec(Person, {
     }, (o) => new Person(o.age, o.address))
 }));
 
+const optionalKeysParser = new JsonParser(Schemas.emptySchemas().addSpec(Empty, {
+    load: JsonSchema.objectSchema<Empty>({
+        p1: Boolean,
+        p2: JsonSchema.optional(Number),
+        p3: JsonSchema.withDefault(String, "default"),
+    }, (_) => new Empty())
+}));
+
 testGroup("errors",
     testGroup("type error",
         assertParseFailsWithTypeError("expected boolean but got number, correct error", basicParser, '1', Boolean, Boolean, 'number', 1),
@@ -377,6 +1097,9 @@ testGroup("errors",
 When trying to read a value for specification: boolean
 I saw: 1
 But this is a number
+At line 1, column 1:
+> 1 | 1
+    | ^
 `, true),
         testParseAsOrThrowFails("correct string for slightly complex error", '{"p": true}', [Object, Number], JsonParser.JsonTypeError, `
 When trying to read a value for specification: Object whose values are number
@@ -385,6 +1108,9 @@ In key: "p"
 When trying to read a value for specification: number
 I saw: true
 But this is a boolean
+At line 1, column 7:
+> 1 | {"p": true}
+    |       ^
 `, true),
         testParseAsOrThrowFailsWithParser(
             personParser, "correct string for objectSchema inside key (bad age)", '{"age": "not a number", "address": "somewhere on Earth"}', Person, JsonParser.JsonTypeError, `
@@ -394,6 +1120,9 @@ In key: "age"
 When trying to read a value for specification: number
 I saw: "not a number"
 But this is a string
+At line 1, column 9:
+> 1 | {"age": "not a number", "address": "somewhere on Earth"}
+    |         ^
 `, true),
         testParseAsOrThrowFailsWithParser(
             personParser, "correct string for objectSchema inside key (bad address)", '{"age": 20, "address": 7}', Person, JsonParser.JsonTypeError, `
@@ -403,22 +1132,56 @@ In key: "address"
 When trying to read a value for specification: string
 I saw: 7
 But this is a number
+At line 1, column 24:
+> 1 | {"age": 20, "address": 7}
+    |                        ^
+`, true),
+        testParseAsOrThrowFails("correct string for error in array", '[true, 1]', [Array, Boolean], JsonParser.JsonTypeError, `
+When trying to read a value for specification: Array of boolean
+I saw: [true,1]
+At index 1
+When trying to read a value for specification: boolean
+I saw: 1
+But this is a number
+At line 1, column 8:
+> 1 | [true, 1]
+    |        ^
+`, true),
+        testParseAsOrThrowFails("correct string for error in tuple", '["test", 1]', [tuple, String, String], JsonParser.JsonTypeError, `
+When trying to read a value for specification: [Symbol(tuple), string, string]
+I saw: ["test",1]
+At index 1
+When trying to read a value for specification: string
+I saw: 1
+But this is a number
+At line 1, column 10:
+> 1 | ["test", 1]
+    |          ^
 `, true),
         testGroup("correct determiner",
             testParseAsOrThrowFails("for array", '[]', [Object, Number], JsonParser.JsonTypeError, `
 When trying to read a value for specification: Object whose values are number
 I saw: []
 But this is an array
+At line 1, column 1:
+> 1 | []
+    | ^
 `, true),
             testParseAsOrThrowFails("for object", '{}', [Array, AnyTy], JsonParser.JsonTypeError, `
 When trying to read a value for specification: Array of anything
 I saw: {}
 But this is an object
+At line 1, column 1:
+> 1 | {}
+    | ^
 `, true),
             testParseAsOrThrowFails("for string", '""', [Array, AnyTy], JsonParser.JsonTypeError, `
 When trying to read a value for specification: Array of anything
 I saw: ""
 But this is a string
+At line 1, column 1:
+> 1 | ""
+    | ^
 `, true),
         ),
     ),
@@ -444,9 +1207,27 @@ But this is a string
 When trying to read a value for specification: Empty
 I saw: {"p2":1}
 But the following keys are required and were not specified: "p1", "p3"
+At line 1, column 1:
+> 1 | { "p2": 1 }
+    | ^
 `, true),
     ),
 
+    testGroup("optional keys",
+        testParseAsOrThrowFailsWithParser(optionalKeysParser, "correct string for error in optional key", `{"p1": true, "p2": "test"}`, Empty, JsonParser.JsonTypeError, `
+When trying to read a value for specification: Empty
+I saw: {"p1":true,"p2":"test"}
+In key: "p2" (optional)
+When trying to read a value for specification: number
+I saw: "test"
+But this is a string
+At line 1, column 20:
+> 1 | {"p1": true, "p2": "test"}
+    |                    ^
+`, true),
+        assertParseFailsWithMissingKeys("only required keys are reported as missing", optionalKeysParser, `{}`, Empty, ['p1']),
+    ),
+
     testGroup("unknown keys",
         assertParseFailsWithUnknownKeys("correct error",
             new JsonParser(Schemas.emptySchemas().addSpec(Empty, {
@@ -464,15 +1245,174 @@ But the following keys are required and were not specified: "p1", "p3"
 When trying to read a value for specification: Empty
 I saw: {"p1":true,"p2":1,"p3":null}
 But I saw the following keys which are not accepted by the specification: "p1", "p3"
+At line 1, column 1:
+> 1 | { "p1": true, "p2": 1, "p3": null }
+    | ^
 `, true),
     ),
 
+    testGroup("all errors",
+        assertParseAllErrors("array", basicParser, '[1, true, "test", false]', [Array, Boolean], [JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("object map", basicParser, '{"a": 1, "b": true, "c": "test"}', [Map, String, Boolean], [JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("object map with number keys", basicParser, '{"a": true, "1": 2, "3": false}', [Map, Number, Boolean], [JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("allOf", entityParser, '{"id": "1", "createdAt": "2021-01-01", "name": 1}', [allOf, entity, named], [JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("tuple", basicParser, '[1, true, null]', [tuple, String, Boolean, Number], [JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("object schema", personParser, '{"age": "old", "name": "test"}', Person, [JsonParser.JsonTypeError, JsonParser.UnknownKeysError, JsonParser.MissingKeysError]),
+        assertParseAllErrors("nested", personParser, '[{"age": "old", "address": 1}, {"age": 1, "address": 1}]', [Array, Person], [JsonParser.JsonTypeError, JsonParser.JsonTypeError, JsonParser.JsonTypeError]),
+        assertParseAllErrors("single error", basicParser, '[1, true]', [Array, Boolean], [JsonParser.JsonTypeError]),
+        new Test("correct string for error", () => {
+            const res = personParser.parseAllErrors('[{"age": "old", "address": "here"}, {"address": 1}]', [Array, Person]);
+            assertEquals(res.unwrapLeft().message, `I found 3 errors:
+
+When trying to read a value for specification: Array of Person
+I saw: [{"age":"old","address":"here"},{"address":1}]
+At index 0
+When trying to read a value for specification: A person with an age and address
+I saw: {"age":"old","address":"here"}
+In key: "age"
+When trying to read a value for specification: number
+I saw: "old"
+But this is a string
+At line 1, column 10:
+> 1 | [{"age": "old", "address": "here"}, {"address": 1}]
+    |          ^
+
+When trying to read a value for specification: Array of Person
+I saw: [{"age":"old","address":"here"},{"address":1}]
+At index 1
+When trying to read a value for specification: A person with an age and address
+I saw: {"address":1}
+In key: "address"
+When trying to read a value for specification: string
+I saw: 1
+But this is a number
+At line 1, column 49:
+> 1 | [{"age": "old", "address": "here"}, {"address": 1}]
+    |                                                 ^
+
+When trying to read a value for specification: Array of Person
+I saw: [{"age":"old","address":"here"},{"address":1}]
+At index 1
+When trying to read a value for specification: A person with an age and address
+I saw: {"address":1}
+But the following keys are required and were not specified: "age"
+At line 1, column 37:
+> 1 | [{"age": "old", "address": "here"}, {"address": 1}]
+    |                                     ^`);
+        }),
+        new Test("unknown specifications in siblings", () => {
+            const err = basicParser.parseAllErrors('[1, 2]', [Array, Empty]).unwrapLeft();
+            assert(err instanceof JsonParser.AggregateParseError);
+            assertEquals(err.errors.map(e => e.path), [[0], [1]]);
+            assertStringIncludes(err.message, `When trying to read a value for specification: Array of Empty
+I saw: [1,2]
+At index 1
+When trying to read a value for specification: Empty
+I saw: 2
+But I don't know how to parse a value for the specification: Empty`);
+        }),
+        new Test("success", () => {
+            assertEquals(personParser.parseAllErrors('{"age": 1, "address": "here"}', Person).unwrapRight(), new Person(1, "here"));
+        }),
+        new Test("parseAs still stops at the first error", () => {
+            assertParseFailsWithClass(basicParser, '[1, true, "test"]', [Array, Boolean], JsonParser.JsonTypeError);
+        }),
+    ),
+
+    testGroup("error location",
+        assertParseErrorLocation("top level", basicParser, '1', Boolean, [], '', 'boolean', 'number'),
+        assertParseErrorLocation("in key", basicParser, '{"p": {"q": 1}}', [Object, [Object, Boolean]], ['p', 'q'], '/p/q', 'boolean', 'number'),
+        assertParseErrorLocation("key requiring escapes", basicParser, '{"a/b": {"c~d": 1}}', [Object, [Object, Boolean]], ['a/b', 'c~d'], '/a~1b/c~0d', 'boolean', 'number'),
+        assertParseErrorLocation("in array", basicParser, '{"p": [true, 1]}', [Object, [Array, Boolean]], ['p', 1], '/p/1', 'boolean', 'number'),
+        assertParseErrorLocation("in tuple", basicParser, '[true, [1]]', [tuple, Boolean, [Set, String]], [1, 0], '/1/0', 'string', 'number'),
+        assertParseErrorLocation("missing keys", personParser, '{"p": {"age": 1}}', [Map, String, Person], ['p'], '/p', 'A person with an age and address', 'object'),
+        new Test("type error has actual description", () => {
+            const err = assertParseFailsWithClass(basicParser, '[1]', [tuple], JsonParser.JsonTypeError).unwrapLeft();
+            assertEquals(err.actualDescription, 'array of length 1');
+        }),
+        new Test("missing keys error has keys", () => {
+            const err = assertParseFailsWithClass(personParser, '{}', Person, JsonParser.MissingKeysError).unwrapLeft();
+            assertEquals(err.keys, ['age', 'address']);
+        }),
+        new Test("unknown keys error has keys", () => {
+            const err = assertParseFailsWithClass(personParser, '{"age": 1, "address": "here", "p": 1}', Person, JsonParser.UnknownKeysError).unwrapLeft();
+            assertEquals(err.keys, ['p']);
+        }),
+        new Test("unknown spec error has spec", () => {
+            const err = assertParseFailsWithClass(basicParser, '{"k": 1}', [Object, Empty], JsonParser.UnknownSpecError).unwrapLeft();
+            assertEquals(err.spec, Empty);
+            assertEquals(err.pointer, '/k');
+        }),
+        new Test("when writing", () => {
+            const err = basicParser.stringifyAs({ p: [1] }, [Object, [Array, String]]).unwrapLeft() as JsonParseError;
+            assertEquals(err.path, ['p', 0]);
+            assertEquals(err.expected, 'string');
+            assertEquals(err.actualType, 'number');
+        }),
+    ),
+
+    testGroup("syntax errors",
+        testParseAsOrThrowFails("correct string for error", '{\n  "k": [1,\n    2,,\n  ]\n}', AnyTy, JsonParser.JsonSyntaxError, `
+Syntax error: expected a value but saw ","
+At line 3, column 7:
+  2 |   "k": [1,
+> 3 |     2,,
+    |       ^
+`, true),
+        new Test("error has location", () => {
+            const err = assertParseFailsWithClass(basicParser, '[1,\n x]', AnyTy, JsonParser.JsonSyntaxError).unwrapLeft();
+            assertEquals([err.line, err.column, err.reason], [2, 2, 'expected a value but saw "x"']);
+        }),
+    ),
+
+    testGroup("dialects",
+        testParseAsOrThrowFailsWithParser(new JsonParser(undefined, false, { dialect: 'json5' }), "errors report locations in JSON5 text", `{
+  // the port to listen on
+  port: 'http',
+}`, [Map, String, Number], JsonParser.JsonTypeError, `
+At line 3, column 9:
+  2 |   // the port to listen on
+> 3 |   port: 'http',
+    |         ^
+`),
+    ),
+
+    testGroup("source locations",
+        testParseAsOrThrowFailsWithParser(personParser, "correct string for error on a later line", `{
+    "age": 20,
+    "address": ["somewhere on Earth"]
+}`, Person, JsonParser.JsonTypeError, `
+When trying to read a value for specification: A person with an age and address
+I saw: {"age":20,"address":["somewhere on Earth"]}
+In key: "address"
+When trying to read a value for specification: string
+I saw: ["somewhere on Earth"]
+But this is an array
+At line 3, column 16:
+  2 |     "age": 20,
+> 3 |     "address": ["somewhere on Earth"]
+    |                ^
+`, true),
+        new Test("error has location", () => {
+            const err = assertParseFailsWithClass(basicParser, '[\n  true,\n  1\n]', [Array, Boolean], JsonParser.JsonTypeError).unwrapLeft();
+            assertEquals([err.line, err.column], [3, 3]);
+        }),
+        new Test("errors when writing have no location", () => {
+            const err = basicParser.stringifyAs(1, Boolean).unwrapLeft() as JsonParseError;
+            assertEquals([err.line, err.column], [undefined, undefined]);
+            assert(!err.message.includes("At line"));
+        }),
+    ),
+
     testGroup("unknown spec",
         assertParseFailsWithUnknownSpec("top level", new JsonParser(), '1', Empty, 'Empty'),
         testParseAsOrThrowFails("correct string for simple error", '1', Empty, JsonParser.UnknownSpecError, `
 When trying to read a value for specification: Empty
 I saw: 1
 But I don't know how to parse a value for the specification: Empty
+At line 1, column 1:
+> 1 | 1
+    | ^
 `, true),
         assertParseFailsWithUnknownSpec("in array", new JsonParser(), '[1]', [Array, Empty], 'Empty'),
         assertParseFailsWithUnknownSpec("in other specification",
@@ -558,6 +1498,12 @@ testGroup("Schemas",
             ),
             testGetDescriptionOkay("wants2Args: 2 args", [wants2Args, Number, Boolean], "the description with Number and Boolean"),
             testGetDescriptionOkay("wantsNoArgs: 0 args", wantsNoArgs, "wanted no args"),
+            testGetDescriptionOkay("refinement", min(1, wantsNoArgs), "wanted no args, at least 1"),
+            testGetDescriptionOkay("literal", "debug", '"debug"'),
+            testGetDescriptionOkay("taggedUnion", taggedUnion("kind", { a: wantsNoArgs, b: Number }), 'union tagged by "kind": "a" (wanted no args), "b" (Number)'),
+            testGetDescriptionOkay("enumOf", enumOf("debug", 1, true), 'one of "debug", 1, true'),
+            testGetDescriptionOkay("enumOf with an enum", enumOf(Colour), 'one of "red", "green"'),
+            testGetDescriptionOkay("nested refinements", [Array, maxLength(3, pattern(/^a/, String))], "[Array, String, matches /^a/, length at most 3]"),
             testGroup("wants2To3Args",
                 testGetDescriptionOkay("2 args", [wants2To3Args, Number, Boolean], "Number and Boolean and Symbol(AnyTy)"),
                 testGetDescriptionOkay("3 args", [wants2To3Args, Number, Boolean, String], "Number and Boolean and String"),
@@ -585,3 +1531,737 @@ testGroup("Schemas",
         ),
     ),
 ).runAsMain();
+
+
+//////////////////////////////
+///// Testing Dumping    /////
+//////////////////////////////
+
+
+function testStringifyAsWithParser(parser: JsonParser, innerDesc: string, value: unknown, ty: TySpec, expected: string): Test {
+    return new Test(innerDesc, () => {
+        assertEquals(parser.stringifyAsOrThrow(value, ty), expected);
+    });
+}
+
+function testStringifyAs(innerDesc: string, value: unknown, ty: TySpec, expected: string): Test {
+    return testStringifyAsWithParser(basicParser, innerDesc, value, ty, expected);
+}
+
+function testStringifyAsFailsWithParser(parser: JsonParser, innerDesc: string, value: unknown, ty: TySpec, errTy: { new(...args: any[]): any }, msgIncludes?: string, exactMatch?: boolean): Test {
+    return new Test(innerDesc, () => {
+        const matchStr = msgIncludes !== undefined ? msgIncludes.trim() : undefined;
+        const err = assertThrows(() => parser.stringifyAsOrThrow(value, ty), errTy, matchStr);
+        if (exactMatch && matchStr !== undefined) {
+            assertEquals(err.message, matchStr);
+        }
+    });
+}
+
+function testStringifyAsFails(innerDesc: string, value: unknown, ty: TySpec, errTy: { new(...args: any[]): any }, msgIncludes?: string, exactMatch?: boolean): Test {
+    return testStringifyAsFailsWithParser(basicParser, innerDesc, value, ty, errTy, msgIncludes, exactMatch);
+}
+
+function testRoundTripWithParser(parser: JsonParser, innerDesc: string, text: string, ty: TySpec): Test {
+    return new Test(innerDesc, () => {
+        assertEquals(parser.stringifyAsOrThrow(parser.parseAsOrThrow(text, ty), ty), text);
+    });
+}
+
+const personDumpParser = new JsonParser(Schemas.emptySchemas().addSpec(Person, {
+    description: "A person with an age and address",
+    load: JsonSchema.objectSchema<Person>({
+        age: Number,
+        address: String
+    }, (o) => new Person(o.age, o.address)),
+    dump: JsonDumper.objectDumper({
+        age: Number,
+        address: String
+    })
+}));
+
+const myArrayDumpParser = new JsonParser(Schemas.emptySchemas().addSpec(MyArray, {
+    maxArgs: 1,
+    load: (t = AnyTy) => JsonSchema.arraySchema(t, r => new MyArray(r)),
+    dump: (t = AnyTy) => JsonDumper.arrayDumper(t, (r: MyArray<unknown>) => r.arr)
+}));
+
+const optionalDumpSpec = Symbol('optionalDumpSpec');
+const optionalDumpParser = new JsonParser(Schemas.emptySchemas().addSpec(optionalDumpSpec, {
+    dump: JsonDumper.objectDumper({
+        req: Number,
+        opt: JsonSchema.optional(Number),
+        def: JsonSchema.withDefault(Number, 7),
+    })
+}));
+
+testGroup("stringifyAs",
+    testGroup("standard JSON types",
+        testStringifyAs("array", [1, true, "test"], Array, '[1,true,"test"]'),
+        testStringifyAs("array of booleans", [true, false], [Array, Boolean], '[true,false]'),
+        testStringifyAsFails("array of booleans, with a number", [true, 1], [Array, Boolean], JsonParser.JsonTypeError, "But this is a number"),
+        testStringifyAs("boolean", true, Boolean, 'true'),
+        testStringifyAsFails("boolean, but a string", "true", Boolean, JsonParser.JsonTypeError, "But this is a string"),
+        testStringifyAs("null", null, null, 'null'),
+        testStringifyAs("number", 7, Number, '7'),
+        testStringifyAsFails("number, but not finite", Infinity, Number, JsonParser.JsonTypeError),
+        testStringifyAs("object", { k: [1] }, Object, '{"k":[1]}'),
+        testStringifyAs("object of booleans", { k: true }, [Object, Boolean], '{"k":true}'),
+        testStringifyAsFails("object, but a Map", new Map(), Object, JsonParser.JsonTypeError, "But this is a Map"),
+        testStringifyAs("string", "test", String, '"test"'),
+    ),
+
+    testGroup("additional standard types",
+        testStringifyAs("AnyTy", { k: [null, 1, "test"] }, AnyTy, '{"k":[null,1,"test"]}'),
+        testStringifyAsFails("AnyTy, but contains a Set", [new Set()], AnyTy, JsonParser.JsonTypeError, "But this is an array"),
+        testStringifyAs("Date", new Date(Date.UTC(2021, 11, 31, 23, 59, 59)), Date, '"2021-12-31T23:59:59.000Z"'),
+        testStringifyAsFails("Date, but invalid", new Date(NaN), Date, JsonParser.JsonTypeError),
+        testStringifyAs("epoch milliseconds", new Date(1500), epochMillis, '1500'),
+        testStringifyAs("epoch seconds", new Date(1500), epochSeconds, '1.5'),
+        testStringifyAs("BigInt", 12345678901234567890n, BigInt, '"12345678901234567890"'),
+        testStringifyAs("decimalString", "0.1000000000000000055", decimalString, '"0.1000000000000000055"'),
+        testStringifyAsFails("decimalString, but not a decimal number", "1,5", decimalString, JsonParser.JsonTypeError),
+        testStringifyAs("exactNumber", 0.5, exactNumber, '0.5'),
+        testStringifyAsFails("BigInt, but a number", 1, BigInt, JsonParser.JsonTypeError, "But this is a number"),
+        testStringifyAs("URL", new URL("https://example.com"), URL, '"https://example.com/"'),
+        testStringifyAs("relative URL", new URL("https://example.com/a"), relativeURL("https://example.com/"), '"https://example.com/a"'),
+        testStringifyAs("RegExp", /^a+$/, RegExp, '"^a+$"'),
+        testStringifyAsFails("RegExp with flags", /a/i, RegExp, JsonParser.JsonTypeError, "But this is a regular expression with flags"),
+        testStringifyAs("Map", new Map([['k', 7]]), Map, '{"k":7}'),
+        testStringifyAs("Map with boolean values", new Map([['k', true]]), [Map, String, Boolean], '{"k":true}'),
+        testStringifyAsFails("Map with number keys", new Map([[1, true]]), Map, JsonParser.JsonTypeError, 'In the name of key: "1"'),
+        testStringifyAs("Map with number keys, as numbers", new Map([[1, true], [2.5, false]]), [Map, Number, Boolean], '{"1":true,"2.5":false}'),
+        testStringifyAs("Map with date keys", new Map([[new Date(0), 1]]), [Map, Date, Number], '{"1970-01-01T00:00:00.000Z":1}'),
+        testStringifyAsFails("Map with array keys", new Map([[[1], true]]), [Map, [Array, Number], Boolean], JsonParser.JsonTypeError, "But this is a key written as array"),
+        testStringifyAs("mapEntries", new Map([[[1], true]]), [mapEntries, [Array, Number], Boolean], '[[[1],true]]'),
+        testStringifyAsFails("mapEntries, but an object", {}, mapEntries, JsonParser.JsonTypeError, "But this is an object"),
+        testStringifyAs("Set", new Set([1, 2]), [Set, Number], '[1,2]'),
+        testStringifyAsWithParser(entityParser, "allOf", { id: 1, createdAt: new Date(0), name: "test", extra: true }, [allOf, entity, named], '{"id":1,"createdAt":"1970-01-01T00:00:00.000Z","name":"test"}'),
+        testStringifyAsFailsWithParser(entityParser, "allOf, member fails", { id: 1, createdAt: new Date(0) }, [allOf, entity, named], JsonParser.JsonTypeError, 'In key: "name"'),
+        testStringifyAs("transform, with an inverse", [new Money(150)], [Array, transform(Number, cents => new Money(cents), m => m.cents)], '[150]'),
+        testStringifyAsFails("transform, without an inverse", new Money(150), transform(Number, cents => new Money(cents)), JsonParser.UnknownDumpSpecError),
+        testStringifyAs("preprocess", [1], preprocess(x => Array.isArray(x) ? x : [x], [Array, Number]), '[1]'),
+        testStringifyAs("tuple", ["test", true, 7], [tuple, String, Boolean, Number], '["test",true,7]'),
+        testStringifyAsFails("tuple, wrong length", ["test", true], [tuple, String, Boolean, Number], JsonParser.JsonTypeError, "But this is an array of length 2"),
+        testStringifyAs("anyOf", [true, "test"], [Array, [anyOf, Boolean, String]], '[true,"test"]'),
+        testStringifyAsFails("anyOf, nothing matches", 1, [anyOf, Boolean, String], JsonParser.NoMatchingAlternativeError, `
+- alternative 1:
+  When trying to write a value for specification: boolean
+  I saw: 1
+  But this is a number
+- alternative 2:`),
+        testStringifyAs("literal", "debug", "debug", '"debug"'),
+        testStringifyAsFails("literal, different value", "info", "debug", JsonParser.UnexpectedValueError, 'But this is not one of the allowed values: "debug"'),
+        testStringifyAs("enumOf", Level.Info, enumOf(Level), '1'),
+        testStringifyAsFails("enumOf, not a value", 2, enumOf(Level), JsonParser.UnexpectedValueError, "But this is not one of the allowed values: 0, 1, 10"),
+        testStringifyAsWithParser(shapeParser, "taggedUnion", [new Circle(1), new Square(2)], [Array, shape], '[{"type":"circle","radius":1},{"type":"square","side":2}]'),
+        testStringifyAsFailsWithParser(shapeParser, "taggedUnion, unknown tag", { type: "triangle" }, shape, JsonParser.UnexpectedValueError, 'In key: "type"'),
+        testStringifyAs("integer", 7, integer, '7'),
+        testStringifyAsFails("integer, with a fraction", 7.5, integer, JsonParser.ConstraintError, "But this does not satisfy the constraint: integer"),
+        testStringifyAs("refinement", [1, 2], [Array, min(1)], '[1,2]'),
+        testStringifyAsFails("refinement, constraint not satisfied", "", minLength(1), JsonParser.ConstraintError, "But this does not satisfy the constraint: length at least 1"),
+        testStringifyAsFails("refinement, wrong type", 1, minLength(1), JsonParser.JsonTypeError, "But this is a number"),
+    ),
+
+    testGroup("with schema",
+        testStringifyAsWithParser(personDumpParser, "Person", new Person(20, "somewhere on Earth"), Person, '{"age":20,"address":"somewhere on Earth"}'),
+        testStringifyAsWithParser(myArrayDumpParser, "MyArray", new MyArray([true]), [MyArray, Boolean], '[true]'),
+        testRoundTripWithParser(personDumpParser, "round trip Person", '{"age":20,"address":"somewhere on Earth"}', Person),
+        testRoundTripWithParser(personDumpParser, "round trip Map with number keys", '{"1":{"age":20,"address":"somewhere on Earth"}}', [Map, Number, Person]),
+        testRoundTripWithParser(personDumpParser, "round trip Map of Person", '{"p":{"age":20,"address":"somewhere on Earth"}}', [Map, String, Person]),
+        testStringifyAsFailsWithParser(personDumpParser, "wrong field type", new Person(20, 7 as any), Person, JsonParser.JsonTypeError, `
+When trying to write a value for specification: A person with an age and address
+I saw: {"age":20,"address":7}
+In key: "address"
+When trying to write a value for specification: string
+I saw: 7
+But this is a number
+`, true),
+        testRoundTripWithParser(treeParser, "round trip recursive class", '{"value":1,"children":[{"value":2,"children":[]}]}', TreeNode),
+        testStringifyAs("lazy", [1, [2, [3]]], nested, '[1,[2,[3]]]'),
+        testStringifyAsWithParser(optionalDumpParser, "optional keys are left out if undefined", { req: 1, def: 2 }, optionalDumpSpec, '{"req":1,"def":2}'),
+        testStringifyAsFailsWithParser(optionalDumpParser, "required keys are not left out if undefined", { def: 2 }, optionalDumpSpec, JsonParser.JsonTypeError, 'In key: "req"'),
+        testStringifyAsFails("no dumper for the specification", new Person(20, "somewhere on Earth"), Person, JsonParser.UnknownDumpSpecError, `
+When trying to write a value for specification: Person
+I saw: {"age":20,"address":"somewhere on Earth"}
+But I don't know how to write a value for the specification: Person
+`, true),
+    ),
+).runAsMain();
+
+type SchemaResult<S> = S extends JsonSchema<infer T> ? T : never;
+
+class Account {
+    name: string;
+    level: number;
+    passwordHash: string;
+
+    constructor(name: string, level: number, passwordHash: string) {
+        this.name = name;
+        this.level = level;
+        this.passwordHash = passwordHash;
+    }
+}
+
+const accountSchema = JsonSchema.objectSchema({ name: String, level: JsonSchema.withDefault(Number, 0), passwordHash: String },
+    o => new Account(o.name, o.level, o.passwordHash));
+
+const publicAccount = typedSpec<{ name: string, level: number }>("publicAccount");
+const accountUpdate = typedSpec<{ name?: string, level?: number, passwordHash?: string }>("accountUpdate");
+
+const accountParser = new JsonParser(Schemas.emptySchemas()
+    .addSpec(Account, { load: accountSchema })
+    .addSpec(publicAccount, { description: getDesc => () => accountSchema.omit("passwordHash").describe(getDesc), load: accountSchema.omit("passwordHash") })
+    .addSpec(accountUpdate, { load: accountSchema.partial() }));
+
+testGroup("ObjectSchema",
+    testParseAsOrThrowWithParser(accountParser, "original", '{"name": "a", "passwordHash": "x"}', Account, new Account("a", 0, "x")),
+    testParseAsOrThrowWithParser(accountParser, "omit", '{"name": "a", "level": 1}', publicAccount, { name: "a", level: 1 }),
+    testParseAsOrThrowFailsWithParser(accountParser, "omit, with the omitted key", '{"name": "a", "passwordHash": "x"}', publicAccount, JsonParser.UnknownKeysError, `When trying to read a value for specification: object with keys: "name" (String), "level" (Number, default: 0)
+I saw: {"name":"a","passwordHash":"x"}
+But I saw the following keys which are not accepted by the specification: "passwordHash"`),
+    testParseAsOrThrowWithParser(accountParser, "partial", '{"level": 1}', accountUpdate, { level: 1 }),
+    testParseAsOrThrowWithParser(accountParser, "partial, no keys, defaults not used", '{}', accountUpdate, {}),
+    new Test("pick", () => {
+        const r = accountParser.parseAsOrThrow('{"name": "a"}', new InlineSpec({ description: _ => "picked", load: accountSchema.pick("name") }));
+        assertEquals(r, { name: "a" });
+    }),
+    new Test("extend", () => {
+        const schema = accountSchema.omit("passwordHash").extend({ level: String, email: JsonSchema.optional(String) });
+        assertEquals(Object.keys(schema.keys), ["name", "level", "email"]);
+        assertEquals(accountParser.parseAsOrThrow('{"name": "a", "level": "high"}', new InlineSpec({ description: _ => "extended", load: schema })), { name: "a", level: "high" });
+    }),
+    new Test("required", () => {
+        const err = accountParser.parseAs('{"name": "a", "passwordHash": "x"}', new InlineSpec({ description: _ => "required", load: accountSchema.required() })).unwrapLeft();
+        assert(err instanceof JsonParser.MissingKeysError);
+        assertStringIncludes(err.message, '"level"');
+    }),
+    new Test("keeps the unknown keys policy", () => {
+        const schema = JsonSchema.objectSchema({ a: Number, b: Number }, o => o, { unknownKeys: 'strip' }).pick("a");
+        assertEquals(accountParser.parseAsOrThrow('{"a": 1, "b": 2}', new InlineSpec({ description: _ => "picked", load: schema })), { a: 1 });
+    }),
+    new Test("extending with the key for unknown keys", () => {
+        const schema = JsonSchema.objectSchema({ a: Number }, o => o, { unknownKeys: { rest: "other" } });
+        assertThrows(() => schema.extend({ other: String }), TypeError, 'the key "other" cannot be used for unknown keys as it is already specified');
+    }),
+    new Test("static types", () => {
+        const picked = accountSchema.pick("name", "level");
+        const partial = accountSchema.omit("passwordHash").partial();
+        const extended = accountSchema.pick("name").extend({ email: JsonSchema.optional(String) });
+        const required = accountSchema.partial().required();
+        assertTypeEquals<SchemaResult<typeof picked>, { name: string, level: number }>();
+        assertTypeEquals<SchemaResult<typeof partial>, { name?: string, level?: number }>();
+        assertTypeEquals<SchemaResult<typeof extended>, { name: string, email?: string }>();
+        assertTypeEquals<SchemaResult<typeof required>, { name: string, level: number, passwordHash: string }>();
+        assertTypeEquals<SchemaResult<typeof accountSchema>, Account>();
+    }),
+).runAsMain();
+
+const knownUser = typedSpec<string>("knownUser");
+
+/** Reads the key "lead" of an object as a 'knownUser', after waiting. */
+const teamLead = typedSpec<string>("teamLead");
+
+/** Users that 'knownUser' accepts, looked up asynchronously, recording how many lookups run at once. */
+class UserDirectory {
+    private users: string[];
+    running = 0;
+    mostRunning = 0;
+    lookups = 0;
+
+    constructor(users: string[]) {
+        this.users = users;
+    }
+
+    async has(name: string): Promise<boolean> {
+        this.lookups++;
+        this.running++;
+        this.mostRunning = Math.max(this.mostRunning, this.running);
+        await new Promise(resolve => setTimeout(resolve, 10 - name.length));
+        this.running--;
+        return this.users.includes(name);
+    }
+}
+
+function directoryParser(directory: UserDirectory): JsonParser {
+    return new JsonParser(Schemas.emptySchemas().addSpec(knownUser, {
+        description: "known user",
+        load: JsonSchema.customSchema({
+            onString: async (parser, json) => await directory.has(json.unwrap())
+                ? JsonParser.parseOk(json.unwrap())
+                : parser.failWithConstraint("known user")
+        })
+    }).addSpec(teamLead, {
+        description: "team with a known lead",
+        load: JsonSchema.customSchema({
+            onObject: async (parser, json) => {
+                await new Promise(resolve => setTimeout(resolve, 1));
+                const lead = json.unwrap()["lead"];
+                return lead === undefined ? parser.failWithMissingKeys(["lead"]) : parser.loadKeyAs("lead", lead, knownUser);
+            }
+        })
+    }).addSpec(Person, {
+        load: JsonSchema.objectSchema({ age: Number, address: String }, o => new Person(o.age, o.address))
+    }));
+}
+
+testGroup("parseAsAsync",
+    new Test("reads values asynchronously", async () => {
+        const parser = directoryParser(new UserDirectory(["alice", "bob"]));
+        const r = await parser.parseAsAsync('{"admins": ["alice"], "users": ["alice", "bob"]}', [Map, String, [Array, knownUser]]);
+        assertEquals(r.unwrapRight(), new Map([["admins", ["alice"]], ["users", ["alice", "bob"]]]));
+    }),
+    new Test("schemas that are not asynchronous", async () => {
+        const parser = directoryParser(new UserDirectory([]));
+        const r = await parser.parseAsAsync('{"age": 20, "address": "somewhere on Earth"}', Person);
+        assertEquals(r.unwrapRight(), new Person(20, "somewhere on Earth"));
+    }),
+    new Test("sibling values are read at the same time", async () => {
+        const directory = new UserDirectory(["alice", "bob", "carol"]);
+        await directoryParser(directory).parseAsAsync('["alice", "bob", "carol"]', [Array, knownUser]);
+        assertEquals([directory.lookups, directory.mostRunning], [3, 3]);
+    }),
+    new Test("errors have the context of the value", async () => {
+        const parser = directoryParser(new UserDirectory(["alice"]));
+        const err = (await parser.parseAsAsync('{"a": ["alice"], "b": ["alice", "mallory"]}', [Map, String, [Array, knownUser]])).unwrapLeft();
+        assert(err instanceof JsonParser.ConstraintError);
+        assertEquals(err.pointer, "/b/1");
+        assertEquals(err.message, `When trying to read a value for specification: Map with string keys and values matching Array of Symbol(knownUser)
+I saw: {"a":["alice"],"b":["alice","mallory"]}
+In key: "b"
+When trying to read a value for specification: Array of Symbol(knownUser)
+I saw: ["alice","mallory"]
+At index 1
+When trying to read a value for specification: known user
+I saw: "mallory"
+But this does not satisfy the constraint: known user
+At line 1, column 33:
+> 1 | {"a": ["alice"], "b": ["alice", "mallory"]}
+    |                                 ^`);
+    }),
+    new Test("errors from other schemas", async () => {
+        const parser = directoryParser(new UserDirectory(["alice"]));
+        const err = (await parser.parseAsAsync('["alice", 1]', [Array, knownUser])).unwrapLeft();
+        assert(err instanceof JsonParser.JsonTypeError);
+        assertEquals(err.pointer, "/1");
+    }),
+    new Test("syntax errors", async () => {
+        const parser = directoryParser(new UserDirectory([]));
+        assert((await parser.parseAsAsync('[', [Array, knownUser])).unwrapLeft() instanceof JsonParser.JsonSyntaxError);
+    }),
+    new Test("asynchronous handlers that read values asynchronously", async () => {
+        const directory = new UserDirectory(["alice"]);
+        const parser = directoryParser(directory);
+        assertEquals((await parser.parseAsAsync('{"lead": "alice"}', teamLead)).unwrapRight(), "alice");
+        const err = (await parser.parseAsAsync('{"lead": "mallory"}', teamLead)).unwrapLeft();
+        assert(err instanceof JsonParser.ConstraintError);
+        assertEquals(err.pointer, "/lead");
+    }),
+    new Test("key names read asynchronously", async () => {
+        const directory = new UserDirectory(["alice", "bob"]);
+        const r = await directoryParser(directory).parseAsAsync('{"alice": 1, "bob": 2}', [Map, knownUser, Number]);
+        assertEquals(r.unwrapRight(), new Map([["alice", 1], ["bob", 2]]));
+        assertEquals(directory.lookups, 2);
+    }),
+    new Test("preprocessed values read asynchronously", async () => {
+        const directory = new UserDirectory(["alice"]);
+        const r = await directoryParser(directory).parseAsAsync('"alice"', preprocess(x => x, knownUser));
+        assertEquals(r.unwrapRight(), "alice");
+        assertEquals(directory.lookups, 1);
+    }),
+    new Test("not allowed when reading synchronously", async () => {
+        const parser = directoryParser(new UserDirectory([]));
+        assertThrows(() => parser.parseAs('"alice"', knownUser), TypeError, "The specification known user is read asynchronously, so must be read with parseAsAsync");
+        // let the lookup that was started finish
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }),
+).runAsMain();
+
+@jsonClass
+class Street {
+    @field(String) name = "";
+    @field(integer) @optional number = 1;
+}
+
+@jsonClass
+class Resident {
+    @field(String) name = "";
+    @optional @field(Street) street?: Street;
+    @field([Array, lazy(() => Resident)]) @optional neighbours: Resident[] = [];
+}
+
+@jsonClass
+class Landlord extends Resident {
+    @field([Array, Street]) owns: Street[] = [];
+}
+
+const classParser = new JsonParser(Schemas.fromClasses(Street, Resident, Landlord));
+
+function resident(name: string, street?: Street, neighbours: Resident[] = []): Resident {
+    return Object.assign(new Resident(), { name, street, neighbours });
+}
+
+function street(name: string, number = 1): Street {
+    return Object.assign(new Street(), { name, number });
+}
+
+testGroup("Schemas.fromClasses",
+    new Test("constructs instances of the class", () => {
+        const r = classParser.parseAsOrThrow('{"name": "Ada", "street": {"name": "High Street", "number": 7}}', Resident);
+        assert(r instanceof Resident && r.street instanceof Street);
+        assertEquals(r, resident("Ada", street("High Street", 7)));
+    }),
+    testParseAsOrThrowWithParser(classParser, "optional fields keep the value from the constructor", '{"name": "Ada"}', Resident, resident("Ada")),
+    testParseAsOrThrowWithParser(classParser, "recursive fields", '{"name": "Ada", "neighbours": [{"name": "Bob"}]}', Resident, resident("Ada", undefined, [resident("Bob")])),
+    new Test("fields of superclasses", () => {
+        const l = classParser.parseAsOrThrow('{"name": "Ada", "owns": [{"name": "Low Road"}]}', Landlord);
+        assert(l instanceof Landlord);
+        assertEquals([l.name, l.owns], ["Ada", [street("Low Road")]]);
+    }),
+    testParseAsOrThrowFailsWithParser(classParser, "missing field", '{"number": 7}', Street, JsonParser.MissingKeysError, `
+When trying to read a value for specification: Street: object with keys: "name" (String), "number" (optional Symbol(integer))
+I saw: {"number":7}
+But the following keys are required and were not specified: "name"
+`),
+    testParseAsOrThrowFailsWithParser(classParser, "unknown field", '{"name": "Ada", "age": 36}', Resident, JsonParser.UnknownKeysError, '"age"'),
+    testParseAsOrThrowFailsWithParser(classParser, "field with the wrong type", '{"name": "High Street", "number": 1.5}', Street, JsonParser.ConstraintError, 'In key: "number" (optional)'),
+    testRoundTripWithParser(classParser, "round trip", '{"name":"Ada","street":{"name":"High Street","number":7},"neighbours":[]}', Resident),
+    new Test("classes must be decorated with @jsonClass", () => {
+        assertThrows(() => Schemas.fromClasses(Empty), TypeError, "Empty cannot be used with fromClasses as it is not decorated with @jsonClass");
+    }),
+    new Test("optional fields must have a specification", () => {
+        assertThrows(() => {
+            @jsonClass
+            class NoSpec {
+                @optional name = "";
+            }
+            return NoSpec;
+        }, TypeError, 'the field "name" of NoSpec is optional, but has no specification given by @field');
+    }),
+    new Test("private fields cannot be decorated", () => {
+        assertThrows(() => {
+            class PrivateField {
+                @field(String) #name = "";
+            }
+            return PrivateField;
+        }, TypeError, "field decorators can only be used on public instance fields");
+    }),
+    new Test("field types must match the specification", () => {
+        class WrongType {
+            // @ts-expect-error a name is not a number
+            @field(Number) name = "";
+        }
+        assert(new WrongType());
+    }),
+).runAsMain();
+
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false;
+
+/** Fails to type-check unless 'A' and 'B' are the same type. */
+function assertTypeEquals<A, B>(..._: Equals<A, B> extends true ? [] : [never]) {}
+
+const Port = typedSpec<number>('Port');
+
+const typedParser = new JsonParser(Schemas.emptySchemas()
+    .addSpec(Port, { load: JsonSchema.numberSchema(x => x) }));
+
+testGroup("static result types",
+    testGroup("builtins",
+        new Test("primitives", () => {
+            const b = basicParser.parseAsOrThrow('true', Boolean);
+            const n = basicParser.parseAsOrThrow('1', Number);
+            const s = basicParser.parseAsOrThrow('"a"', String);
+            const z = basicParser.parseAsOrThrow('null', null);
+            assertTypeEquals<typeof b, boolean>();
+            assertTypeEquals<typeof n, number>();
+            assertTypeEquals<typeof s, string>();
+            assertTypeEquals<typeof z, null>();
+            assertEquals([b, n, s, z], [true, 1, "a", null]);
+        }),
+        new Test("AnyTy", () => {
+            const r = basicParser.parseAsOrThrow('[1]', AnyTy);
+            assertTypeEquals<typeof r, JsonValueRaw>();
+            assertEquals(r, [1]);
+        }),
+        new Test("Array", () => {
+            const r = basicParser.parseAsOrThrow('[1, 2]', [Array, Number]);
+            const untyped = basicParser.parseAsOrThrow('[1, 2]', Array);
+            assertTypeEquals<typeof r, number[]>();
+            assertTypeEquals<typeof untyped, JsonValueRaw[]>();
+            assertEquals(r, [1, 2]);
+        }),
+        new Test("Map", () => {
+            const r = basicParser.parseAsOrThrow('{"a": true}', [Map, String, Boolean]);
+            assertTypeEquals<typeof r, Map<string, boolean>>();
+            assertEquals(r, new Map([["a", true]]));
+        }),
+        new Test("Map with other keys, and mapEntries", () => {
+            const r = basicParser.parseAsOrThrow('[{"1": true}, [["a", 1]]]', [tuple, [Map, Number, Boolean], [mapEntries, String]]);
+            assertTypeEquals<typeof r, [Map<number, boolean>, Map<string, JsonValueRaw>]>();
+            assertEquals(r, [new Map([[1, true]]), new Map([["a", 1]])]);
+        }),
+        new Test("allOf", () => {
+            const r = entityParser.parseAsOrThrow('{"id": 1, "createdAt": "2021-01-01", "name": "test"}', [allOf, entity, named]);
+            assertTypeEquals<typeof r, { id: number, createdAt: Date, name: string }>();
+            assertEquals(r, { id: 1, createdAt: new Date(Date.UTC(2021, 0, 1)), name: "test" });
+        }),
+        new Test("transform, pipe and preprocess", () => {
+            const r = basicParser.parseAsOrThrow('[1, "a", 2]', [tuple, transform(Number, x => new Money(x)), pipe(String, s => s.length, n => n > 0), preprocess(x => [x], [Array, Number])]);
+            assertTypeEquals<typeof r, [Money, boolean, number[]]>();
+            assertEquals(r, [new Money(1), true, [2]]);
+        }),
+        new Test("Object and Set", () => {
+            const o = basicParser.parseAsOrThrow('{"a": [1]}', [Object, [Set, Number]]);
+            assertTypeEquals<typeof o, { [k: string]: Set<number> }>();
+            assertEquals(o, { a: new Set([1]) });
+        }),
+        new Test("tuple", () => {
+            const r = basicParser.parseAsOrThrow('["a", 1]', [tuple, String, Number]);
+            assertTypeEquals<typeof r, [string, number]>();
+            assertEquals(r, ["a", 1]);
+        }),
+        new Test("anyOf", () => {
+            const r = basicParser.parseAsOrThrow('null', [anyOf, [Array, String], null]);
+            assertTypeEquals<typeof r, string[] | null>();
+            assertEquals(r, null);
+        }),
+        new Test("Date", () => {
+            const r = basicParser.parseAsOrThrow('"2021-01-01"', Date);
+            assertTypeEquals<typeof r, Date>();
+            assertEquals(r, new Date(Date.UTC(2021, 0, 1)));
+        }),
+        new Test("decimalString and exactNumber", () => {
+            const r = basicParser.parseAsOrThrow('[1, 2]', [tuple, decimalString, exactNumber]);
+            assertTypeEquals<typeof r, [string, number]>();
+            assertEquals(r, ["1", 2]);
+        }),
+        new Test("BigInt, URL and RegExp", () => {
+            const r = basicParser.parseAsOrThrow('["1", "https://example.com/", "a", 0]', [tuple, BigInt, URL, RegExp, epochMillis]);
+            assertTypeEquals<typeof r, [bigint, URL, RegExp, Date]>();
+            assertEquals(r, [1n, new URL("https://example.com/"), /a/, new Date(0)]);
+        }),
+        new Test("parseAs and parseAllErrors", () => {
+            const r = basicParser.parseAs('[1]', [Array, Number]);
+            const all = basicParser.parseAllErrors('[1]', [Array, Number]);
+            assertTypeEquals<typeof r, Either<Error, number[]>>();
+            assertTypeEquals<typeof all, Either<Error, number[]>>();
+            assertEquals(r.unwrapRight(), [1]);
+        }),
+    ),
+    testGroup("user specifications",
+        new Test("constructors give their instance type", () => {
+            const r = parserBasic.parseAsOrThrow('{"p": true}', Basic);
+            assertTypeEquals<typeof r, Basic>();
+            assertEquals(r, new Basic(true));
+        }),
+        new Test("symbols made with typedSpec", () => {
+            const r = typedParser.parseAsOrThrow('[80, 443]', [Array, Port]);
+            assertTypeEquals<typeof r, number[]>();
+            assertEquals(r, [80, 443]);
+        }),
+        new Test("refinements give the type of their specification", () => {
+            const r = basicParser.parseAsOrThrow('[1]', [Array, max(3, integer)]);
+            const s = basicParser.parseAsOrThrow('"a"', refine(minLength(1), x => x !== "b", "not b"));
+            assertTypeEquals<typeof r, number[]>();
+            assertTypeEquals<typeof s, string>();
+            assertEquals([r, s], [[1], "a"]);
+        }),
+        new Test("literals and enumOf", () => {
+            const r = basicParser.parseAsOrThrow('["info"]', [Array, [anyOf, "debug", "info"]]);
+            const e = basicParser.parseAsOrThrow('"warn"', enumOf("debug", "warn", null));
+            const l = basicParser.parseAsOrThrow('10', enumOf(Level));
+            const c = basicParser.parseAsOrThrow('"red"', enumOf(Colour));
+            assertTypeEquals<typeof r, ("debug" | "info")[]>();
+            assertTypeEquals<typeof e, "debug" | "warn" | null>();
+            assertTypeEquals<typeof l, Level.Debug | Level.Info | Level.Warn>();
+            assertTypeEquals<typeof c, Colour.Red | Colour.Green>();
+            assertEquals([r, e, l, c], [["info"], "warn", Level.Warn, Colour.Red]);
+        }),
+        new Test("taggedUnion", () => {
+            const r = shapeParser.parseAsOrThrow('{"type": "circle", "radius": 1}', shape);
+            assertTypeEquals<typeof r, Circle | Square>();
+            assertEquals(r, new Circle(1));
+        }),
+        new Test("lazy", () => {
+            const r = basicParser.parseAsOrThrow('[[1]]', [Array, nested]);
+            const l = basicParser.parseAsOrThrow('"a"', lazy(() => String));
+            assertTypeEquals<typeof r, Nested[]>();
+            assertTypeEquals<typeof l, string>();
+            assertEquals([r, l], [[[1]], "a"]);
+        }),
+        new Test("other symbols give any", () => {
+            const r = policyParser.parseAsOrThrow('{"p": true}', defaultUnknown);
+            assertTypeEquals<typeof r, any>();
+        }),
+        new Test("specifications not known statically give any", () => {
+            const spec: TySpec = [Array, Number];
+            const r = basicParser.parseAsOrThrow('[1]', spec);
+            assertTypeEquals<typeof r, any>();
+        }),
+        new Test("loaders must match the type of the specification", () => {
+            // @ts-expect-error a Port is a number
+            Schemas.emptySchemas().addSpec(Port, { load: JsonSchema.stringSchema(x => x) });
+            // @ts-expect-error a Basic is not a number
+            Schemas.emptySchemas().addSpec(Basic, { load: JsonSchema.numberSchema(x => x) });
+        }),
+    ),
+    testGroup("objectSchema",
+        new Test("keys are typed by their specification", () => {
+            const schema = JsonSchema.objectSchema({
+                a: Number,
+                b: JsonSchema.optional(String),
+                c: JsonSchema.withDefault([Array, Boolean], []),
+                d: [Map, String, Basic],
+            }, o => {
+                assertTypeEquals<typeof o, { a: number, b?: string, c: boolean[], d: Map<string, Basic> }>();
+                return o;
+            });
+            const parser = new JsonParser(Schemas.mergeSchemas(basicSchemas, Schemas.emptySchemas().addSpec(defaultUnknown, { load: schema })));
+            assertEquals(parser.parseAsOrThrow('{"a": 1, "d": {}}', defaultUnknown), { a: 1, c: [], d: new Map() });
+        }),
+    ),
+).runAsMain();
+
+/** A parser that reads the given files from memory, recording which are read. */
+function filesParser(files: { [path: string]: string }, read: string[] = []): JsonParser {
+    return new JsonParser(undefined, false, {
+        readFile: path => {
+            read.push(path);
+            return path in files ? Promise.resolve(files[path]) : Promise.reject(new Error(`${path} does not exist`));
+        }
+    });
+}
+
+testGroup("parseFileAsync",
+    new Test("reads the file", async () => {
+        const r = await filesParser({ "a.json": '{"x": 1}' }).parseFileAsync("a.json", [Map, String, Number]);
+        assertEquals(r.unwrapRight(), new Map([["x", 1]]));
+    }),
+    new Test("$ref to another file", async () => {
+        const files = { "conf/main.json": '{"db": {"$ref": "db.json#/primary"}}', "conf/db.json": '{"primary": {"port": 5432}}' };
+        const r = await filesParser(files).parseFileAsync("conf/main.json", [Map, String, [Map, String, Number]]);
+        assertEquals(r.unwrapRight(), new Map([["db", new Map([["port", 5432]])]]));
+    }),
+    new Test("$ref to a whole file", async () => {
+        const files = { "main.json": '[{"$ref": "x.json"}, 2]', "x.json": '1' };
+        assertEquals((await filesParser(files).parseFileAsync("main.json", [Array, Number])).unwrapRight(), [1, 2]);
+    }),
+    new Test("$ref within the same file", async () => {
+        const files = { "main.json": '{"defs": {"n": 3}, "a": {"$ref": "#/defs/n"}, "b": {"$ref": "#/defs/n"}}' };
+        const r = await filesParser(files).parseFileAsync("main.json", AnyTy);
+        assertEquals(r.unwrapRight(), { defs: { n: 3 }, a: 3, b: 3 });
+    }),
+    new Test("paths are relative to the file containing the reference", async () => {
+        const files = {
+            "conf/main.json": '{"$ref": "sub/a.json"}',
+            "conf/sub/a.json": '{"$ref": "../../b.json"}',
+            "b.json": '"b"',
+        };
+        const read: string[] = [];
+        assertEquals((await filesParser(files, read).parseFileAsync("conf/main.json", String)).unwrapRight(), "b");
+        assertEquals(read, ["conf/main.json", "conf/sub/a.json", "b.json"]);
+    }),
+    new Test("files are read once", async () => {
+        const files = { "main.json": '[{"$ref": "x.json#/a"}, {"$ref": "x.json#/b"}]', "x.json": '{"a": 1, "b": 2}' };
+        const read: string[] = [];
+        assertEquals((await filesParser(files, read).parseFileAsync("main.json", [Array, Number])).unwrapRight(), [1, 2]);
+        assertEquals(read, ["main.json", "x.json"]);
+    }),
+    new Test("Windows paths", async () => {
+        const files = { "C:\\cfg\\main.json": '[{"$ref": "o.json"}, {"$ref": "..\\\\shared\\\\p.json"}, {"$ref": "main.json#/0"}]', "C:/cfg/o.json": '1', "C:/shared/p.json": '2' };
+        const read: string[] = [];
+        assertEquals((await filesParser(files, read).parseFileAsync("C:\\cfg\\main.json", [Array, Number])).unwrapRight(), [1, 2, 1]);
+        assertEquals(read, ["C:\\cfg\\main.json", "C:/cfg/o.json", "C:/shared/p.json"]);
+    }),
+    new Test("JSON Pointer escapes", async () => {
+        const files = { "main.json": '[{"$ref": "#/1/a~1b"}, {"a/b": 1, "m~n": 2, "c d": 3}, {"$ref": "#/1/m~0n"}, {"$ref": "#/1/c%20d"}]' };
+        const r = await filesParser(files).parseFileAsync("main.json", AnyTy);
+        assertEquals(r.unwrapRight(), [1, { "a/b": 1, "m~n": 2, "c d": 3 }, 2, 3]);
+    }),
+    new Test("$include merges keys", async () => {
+        const files = {
+            "main.json": '{"$include": ["a.json", "b.json#/x"], "c": 3}',
+            "a.json": '{"a": 1, "b": 1, "c": 1}',
+            "b.json": '{"x": {"b": 2, "c": 2}}',
+        };
+        const r = await filesParser(files).parseFileAsync("main.json", [Map, String, Number]);
+        assertEquals(r.unwrapRight(), new Map([["a", 1], ["b", 2], ["c", 3]]));
+    }),
+    new Test("$include of a single file", async () => {
+        const files = { "main.json": '{"$include": "a.json", "b": 2}', "a.json": '{"a": 1}' };
+        const r = await filesParser(files).parseFileAsync("main.json", [Map, String, Number]);
+        assertEquals(r.unwrapRight(), new Map([["a", 1], ["b", 2]]));
+    }),
+    new Test("errors list the references followed", async () => {
+        const files = { "conf/main.json": '{"db": {"$ref": "db.json#/primary"}}', "conf/db.json": '{"primary": {"port": "x"}}' };
+        const err = (await filesParser(files).parseFileAsync("conf/main.json", [Map, String, [Map, String, Number]])).unwrapLeft();
+        assert(err instanceof JsonParser.JsonTypeError);
+        assertEquals(err.pointer, "/db/port");
+        assertEquals(err.message, `When trying to read a value for specification: Map with string keys and values matching Map with string keys and values matching number
+I saw: {"db":{"port":"x"}}
+In key: "db"
+Following $ref in conf/main.json to conf/db.json#/primary
+When trying to read a value for specification: Map with string keys and values matching number
+I saw: {"port":"x"}
+In key: "port"
+When trying to read a value for specification: number
+I saw: "x"
+But this is a string
+At conf/db.json, line 1, column 22:
+> 1 | {"primary": {"port": "x"}}
+    |                      ^`);
+    }),
+    new Test("errors in included keys", async () => {
+        const files = { "main.json": '{"$include": "a.json"}', "a.json": '{"a": "x"}' };
+        const err = (await filesParser(files).parseFileAsync("main.json", [Map, String, Number])).unwrapLeft();
+        assertStringIncludes(err.message, 'In key: "a"\nFollowing $include in main.json to a.json\n');
+    }),
+    new Test("references that lead back to themselves", async () => {
+        const files = { "main.json": '{"a": {"$ref": "b.json"}}', "b.json": '[{"$ref": "main.json#/a"}]' };
+        const err = (await filesParser(files).parseFileAsync("main.json", AnyTy)).unwrapLeft();
+        assert(err instanceof JsonParser.RefError);
+        assertEquals(err.reason, "this leads back to itself: b.json -> main.json#/a -> b.json");
+        assertEquals(err.message, `In key: "a"
+Following $ref in main.json to b.json
+At index 0
+Following $ref in b.json to main.json#/a
+But this leads back to itself: b.json -> main.json#/a -> b.json
+At main.json, line 1, column 7:
+> 1 | {"a": {"$ref": "b.json"}}
+    |       ^`);
+    }),
+    new Test("missing files", async () => {
+        const files = { "main.json": '{"a": {"$ref": "b.json"}}' };
+        const err = (await filesParser(files).parseFileAsync("main.json", AnyTy)).unwrapLeft();
+        assert(err instanceof JsonParser.RefError);
+        assertEquals(err.reason, "I could not read b.json: b.json does not exist");
+        assertEquals(err.pointer, "/a");
+        assert((await filesParser({}).parseFileAsync("main.json", AnyTy)).unwrapLeft() instanceof JsonParser.RefError);
+    }),
+    new Test("missing values", async () => {
+        const files = { "main.json": '{"a": {"$ref": "#/b"}}' };
+        const err = (await filesParser(files).parseFileAsync("main.json", AnyTy)).unwrapLeft();
+        assert(err instanceof JsonParser.RefError);
+        assertEquals(err.reason, "main.json has no value at /b");
+    }),
+    new Test("syntax errors", async () => {
+        const files = { "main.json": '{"a": {"$ref": "b.json"}}', "b.json": '[1,' };
+        const err = (await filesParser(files).parseFileAsync("main.json", AnyTy)).unwrapLeft();
+        assert(err instanceof JsonParser.RefError);
+        assertStringIncludes(err.reason, "I could not read b.json: syntax error at line 1, column 4");
+        assert((await filesParser({ "main.json": '[' }).parseFileAsync("main.json", AnyTy)).unwrapLeft() instanceof JsonParser.JsonSyntaxError);
+    }),
+    new Test("invalid references", async () => {
+        const parser = filesParser({ "a.json": '{"$ref": 1}', "b.json": '{"$ref": "#/c", "c": 1}', "c.json": '{"$include": 1}', "d.json": '{"$include": "e.json"}', "e.json": '1' });
+        const reasons = await Promise.all(["a.json", "b.json", "c.json", "d.json"].map(async f => {
+            const err = (await parser.parseFileAsync(f, AnyTy)).unwrapLeft();
+            return err instanceof JsonParser.RefError ? err.reason : err.message;
+        }));
+        assertEquals(reasons, [
+            "$ref must be a string",
+            "an object with $ref cannot have other keys",
+            "$include must be a file name, or an array of them",
+            "e.json is not an object, so cannot be included",
+        ]);
+    }),
+).runAsMain();
@@ -0,0 +1,149 @@
+import {
+    JsonDialect,
+    readJson,
+} from '../src/reader.ts';
+
+import {
+    codeFrame,
+    JsonValue,
+} from '../src/value.ts';
+
+import {
+    assertEquals,
+    index,
+    key,
+    Test,
+    testGroup,
+    testReadFails,
+    testSpan,
+} from './deps.ts';
+
+function testReadsLikeJsonParse(description: string, text: string): Test {
+    return new Test(description, () => {
+        assertEquals(readJson(text).unwrapRight().unwrapFully(), JSON.parse(text));
+    });
+}
+
+function testReadsInDialect(dialect: JsonDialect, description: string, text: string, expected: unknown): Test {
+    return new Test(description, () => {
+        assertEquals(readJson(text, { dialect }).unwrapRight().unwrapFully(), expected);
+    });
+}
+
+function testReadFailsInDialect(dialect: JsonDialect, description: string, text: string, line: number, column: number, reason: string): Test {
+    return testReadFails(text => readJson(text, { dialect }), description, text, line, column, reason);
+}
+
+function testNumberText(dialect: JsonDialect, description: string, text: string, expected: (string | undefined)[]): Test {
+    return new Test(description, () => {
+        const elems = readJson(text, { dialect }).unwrapRight().unwrap() as JsonValue[];
+        assertEquals(elems.map(v => v.getNumberText().maybe(undefined, t => t)), expected);
+    });
+}
+
+testGroup("readJson",
+    testGroup("valid JSON",
+        testReadsLikeJsonParse("empty array", "[]"),
+        testReadsLikeJsonParse("empty object", "{}"),
+        testReadsLikeJsonParse("nested", '{"k1": [1, {"k2": null}], "k3": {"k4": [true, false]}}'),
+        testReadsLikeJsonParse("surrounding whitespace", ' \t\r\n"test"\n '),
+        testReadsLikeJsonParse("numbers", '[0, -0, 1, -12, 1.5, 1e3, 1E-3, -2.5e+10]'),
+        testReadsLikeJsonParse("string escapes", '"\\"\\\\\\/\\b\\f\\n\\r\\t\\u00e9\\ud83d\\ude00"'),
+        testReadsLikeJsonParse("non-ASCII characters", '"é 😀"'),
+        testReadsLikeJsonParse("duplicate keys use the last value", '{"k": 1, "k": 2}'),
+        new Test("__proto__ is an ordinary key", () => {
+            const res = readJson('{"__proto__": 1}').unwrapRight().unwrap() as { [k: string]: JsonValue };
+            assertEquals(Object.keys(res), ["__proto__"]);
+            assertEquals(Object.getPrototypeOf(res), Object.prototype);
+        }),
+    ),
+
+    testGroup("invalid JSON",
+        testReadFails(readJson, "empty input", "", 1, 1, "expected a value but saw the end of the input"),
+        testReadFails(readJson, "trailing comma in array", "[1,]", 1, 4, 'expected a value but saw "]"'),
+        testReadFails(readJson, "trailing comma in object", '{"k": 1,}', 1, 9, 'expected a string key but saw "}"'),
+        testReadFails(readJson, "missing colon", '{"k" 1}', 1, 6, 'expected ":" but saw "1"'),
+        testReadFails(readJson, "missing comma", '[1 2]', 1, 4, 'expected "," or "]" but saw "2"'),
+        testReadFails(readJson, "unquoted key", '{k: 1}', 1, 2, 'expected a string key but saw "k"'),
+        testReadFails(readJson, "single-quoted string", "'test'", 1, 1, `expected a value but saw "'"`),
+        testReadFails(readJson, "unterminated string", '["test', 1, 2, "unterminated string"),
+        testReadFails(readJson, "invalid escape", '"\\x"', 1, 2, 'invalid escape sequence "\\\\x"'),
+        testReadFails(readJson, "control character in string", '"a\tb"', 1, 3, 'control characters must be escaped in strings, but saw "\\t"'),
+        testReadFails(readJson, "leading zero", '01', 1, 2, "numbers cannot have leading zeroes"),
+        testReadFails(readJson, "missing fraction digits", '1.', 1, 3, "expected a digit but saw the end of the input"),
+        testReadFails(readJson, "misspelt literal", 'nul', 1, 1, 'expected "null" but saw the end of the input'),
+        testReadFails(readJson, "trailing content", '1 2', 1, 3, 'expected the end of the input but saw "2"'),
+        testReadFails(readJson, "error on later line", '{\n  "k": [\n    1,\n    x\n  ]\n}', 4, 5, 'expected a value but saw "x"'),
+        testReadFails(readJson, "windows line endings", '[\r\n1,\r\nx]', 3, 1, 'expected a value but saw "x"'),
+    ),
+
+    testGroup("JSONC",
+        testReadsInDialect('jsonc', "line comments", '// start\n[1, // one\n2]// end', [1, 2]),
+        testReadsInDialect('jsonc', "block comments", '/* start */{/* k */"k"/**/:/* v\n */1}', { k: 1 }),
+        testReadsInDialect('jsonc', "trailing comma in array", '[1, 2,\n]', [1, 2]),
+        testReadsInDialect('jsonc', "trailing comma in object", '{"k": 1, /* last */}', { k: 1 }),
+        testReadsInDialect('jsonc', "comment markers in strings are kept", '"// /* */"', "// /* */"),
+        testReadFailsInDialect('jsonc', "unterminated block comment", '[1, /* 2 ]', 1, 5, "unterminated comment"),
+        testReadFailsInDialect('jsonc', "only one trailing comma", '[1,,]', 1, 4, 'expected a value but saw ","'),
+        testReadFailsInDialect('jsonc', "lone comma in array", '[,]', 1, 2, 'expected a value but saw ","'),
+        testReadFailsInDialect('jsonc', "unquoted key", '{k: 1}', 1, 2, 'expected a string key but saw "k"'),
+        testReadFailsInDialect('jsonc', "single-quoted string", "'test'", 1, 1, `expected a value but saw "'"`),
+        testReadFailsInDialect('json', "comments in strict JSON", '[1 // one\n]', 1, 4, 'expected "," or "]" but saw "/"'),
+    ),
+
+    testGroup("JSON5",
+        testReadsInDialect('json5', "comments and trailing commas", '{\n  // comment\n  "k": [1, 2,],\n}', { k: [1, 2] }),
+        testReadsInDialect('json5', "unquoted keys", '{k: 1, $k_2: 2, café: 3, true: 4}', { k: 1, $k_2: 2, café: 3, true: 4 }),
+        testReadsInDialect('json5', "single-quoted strings and keys", `{'k': 'a "quoted" \\'word\\''}`, { k: `a "quoted" 'word'` }),
+        testReadsInDialect('json5', "additional escapes", `'\\x41\\v\\0\\q'`, "A\v\0q"),
+        testReadsInDialect('json5', "escaped line breaks", "'one \\\ntwo \\\r\nthree'", "one two three"),
+        testReadsInDialect('json5', "unescaped tabs in strings", "'a\tb'", "a\tb"),
+        testReadsInDialect('json5', "hexadecimal numbers", '[0x1F, 0XaB, -0x10, +0x1]', [31, 171, -16, 1]),
+        testReadsInDialect('json5', "Infinity and NaN", '[Infinity, -Infinity, +Infinity, NaN]', [Infinity, -Infinity, Infinity, NaN]),
+        testReadsInDialect('json5', "decimal points", '[.5, 5., -.5, +1.5e2]', [0.5, 5, -0.5, 150]),
+        testReadsInDialect('json5', "additional whitespace", '\uFEFF[1,\u00A0\v\f2]', [1, 2]),
+        testReadFailsInDialect('json5', "key starting with a digit", '{1k: 1}', 1, 2, 'expected a key but saw "1"'),
+        testReadFailsInDialect('json5', "unescaped line break in string", "'a\nb'", 1, 3, 'control characters must be escaped in strings, but saw "\\n"'),
+        testReadFailsInDialect('json5', "hexadecimal with no digits", '0x', 1, 3, "expected a hexadecimal digit but saw the end of the input"),
+        testReadFailsInDialect('json5', "lone decimal point", '.', 1, 2, "expected a digit but saw the end of the input"),
+        testReadFailsInDialect('json5', "still no leading zeroes", '01', 1, 2, "numbers cannot have leading zeroes"),
+        testReadFailsInDialect('json5', "digit escape", "'\\1'", 1, 2, 'invalid escape sequence "\\\\1"'),
+        testReadFailsInDialect('json5', "misspelt Infinity", 'Infinty', 1, 1, 'expected "Infinity" but saw "t"'),
+    ),
+
+    testGroup("number text",
+        testNumberText('json', "keeps every digit", '[12345678901234567890, 0.1000000000000000055, -1.50e+3]', ["12345678901234567890", "0.1000000000000000055", "-1.50e+3"]),
+        testNumberText('json5', "JSON5 numbers in JSON form", '[.5, 5., +1, 0x1FFFFFFFFFFFFFFF, -0x10, Infinity, NaN]', ["0.5", "5", "1", "2305843009213693951", "-16", undefined, undefined]),
+        new Test("used when writing the value as JSON", () => {
+            assertEquals(readJson('{"a": [12345678901234567890, 1.0]}').unwrapRight().toJsonString(), '{"a":[12345678901234567890,1.0]}');
+        }),
+    ),
+
+    testGroup("spans",
+        testSpan(readJson, "top-level value", ' [1] ', v => v, [1, 2], [1, 5]),
+        testSpan(readJson, "array element", '[1, "test"]', v => index(v, 1), [1, 5], [1, 11]),
+        testSpan(readJson, "object value on later line", '{\n  "k": {\n    "k2": true\n  }\n}', v => key(key(v, "k"), "k2"), [3, 11], [3, 15]),
+    ),
+).runAsMain();
+
+testGroup("codeFrame",
+    new Test("single line", () => {
+        assertEquals(codeFrame({ text: '{"k": x}' }, { offset: 6, line: 1, column: 7 }), `> 1 | {"k": x}
+    |       ^`);
+    }),
+    new Test("shows the previous line", () => {
+        assertEquals(codeFrame({ text: '{\n  "k": x\n}' }, { offset: 9, line: 2, column: 8 }), `  1 | {
+> 2 |   "k": x
+    |        ^`);
+    }),
+    new Test("line numbers are aligned", () => {
+        const text = Array.from({ length: 10 }, (_, i) => `${i}`).join('\n');
+        assertEquals(codeFrame({ text }, { offset: 18, line: 10, column: 1 }), `   9 | 8
+> 10 | 9
+     | ^`);
+    }),
+    new Test("tabs are kept so that the caret lines up", () => {
+        assertEquals(codeFrame({ text: '\t\tx' }, { offset: 2, line: 1, column: 3 }), `> 1 | \t\tx
+    | \t\t^`);
+    }),
+).runAsMain();
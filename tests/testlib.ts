@@ -1,3 +1,20 @@
+import {
+    Either,
+} from '../src/functional.ts';
+
+import {
+    ReadError,
+} from '../src/reader.ts';
+
+import {
+    JsonValue,
+} from '../src/value.ts';
+
+import {
+    assert,
+    assertEquals,
+} from './deps.ts';
+
 type InnerTest = (topDesc: string) => void;
 
 interface Testable {
@@ -48,3 +65,34 @@ class TestGroup implements Testable {
 export function testGroup(topDesc: string, ...tests: Testable[]): TestGroup {
     return new TestGroup(topDesc, ...tests);
 }
+
+/** Reads text as one of the supported formats, e.g., 'readJson'. */
+export type Reader = (text: string) => Either<ReadError, JsonValue>;
+
+export function testReadFails(read: Reader, description: string, text: string, line: number, column: number, reason: string): Test {
+    return new Test(description, () => {
+        const res = read(text);
+        assert(res.isLeft(), "expected the read to fail but it didn't");
+        const err = res.unwrapLeft();
+        assert(err instanceof ReadError);
+        assertEquals([err.position.line, err.position.column, err.reason], [line, column, reason]);
+    });
+}
+
+export function testSpan(read: Reader, description: string, text: string, get: (v: JsonValue) => JsonValue, start: [number, number], end: [number, number]): Test {
+    return new Test(description, () => {
+        const span = get(read(text).unwrapRight()).getSpan().unwrap();
+        assertEquals([span.start.line, span.start.column], start);
+        assertEquals([span.end.line, span.end.column], end);
+    });
+}
+
+/** The value of the key 'k' of the object 'v'. */
+export function key(v: JsonValue, k: string): JsonValue {
+    return (v.unwrap() as { [k: string]: JsonValue })[k];
+}
+
+/** The element at 'i' of the array 'v'. */
+export function index(v: JsonValue, i: number): JsonValue {
+    return (v.unwrap() as JsonValue[])[i];
+}
@@ -0,0 +1,184 @@
+import {
+    AnyTy,
+    JsonParser,
+    JsonSchema,
+    Schemas,
+    TomlParser,
+} from '../mod.ts';
+
+import {
+    readToml,
+} from '../src/toml.ts';
+
+import {
+    assert,
+    assertEquals,
+    assertThrows,
+    index,
+    key,
+    Test,
+    testGroup,
+    testReadFails,
+    testSpan,
+} from './deps.ts';
+
+function testReads(description: string, text: string, expected: unknown): Test {
+    return new Test(description, () => {
+        assertEquals(readToml(text).unwrapRight().unwrapFully(), expected);
+    });
+}
+
+testGroup("readToml",
+    testGroup("key-value pairs",
+        testReads("empty document", "", {}),
+        testReads("bare keys", "key = 1\nbare_key-2 = 2\n1234 = 3", { key: 1, "bare_key-2": 2, "1234": 3 }),
+        testReads("quoted keys", `"a b" = 1\n'c.d' = 2\n"" = 3`, { "a b": 1, "c.d": 2, "": 3 }),
+        testReads("dotted keys", `a.b = 1\na . "c d" = 2\nx.y.z = 3`, { a: { b: 1, "c d": 2 }, x: { y: { z: 3 } } }),
+        testReads("comments and whitespace", "# comment\n  a = 1 # one\n\n\tb=2", { a: 1, b: 2 }),
+        testReads("windows line endings", "a = 1\r\n[t]\r\nb = 2\r\n", { a: 1, t: { b: 2 } }),
+    ),
+
+    testGroup("strings",
+        testReads("basic", `s = "a\\tb \\"c\\" \\u00e9 \\U0001F600 \\\\"`, { s: 'a\tb "c" é 😀 \\' }),
+        testReads("literal", `s = 'C:\\Users\\"me"'`, { s: 'C:\\Users\\"me"' }),
+        testReads("multi-line basic", 's = """\none\n  two"""', { s: "one\n  two" }),
+        testReads("multi-line basic with line-ending backslash", 's = """\none \\\n    two \\\n\n  three"""', { s: "one two three" }),
+        testReads("multi-line basic with quotes", 's = """a "b" ""c"" """""', { s: 'a "b" ""c"" ""' }),
+        testReads("multi-line literal", "s = '''\nC:\\n\n  'x' '''", { s: "C:\\n\n  'x' " }),
+        testReads("multi-line windows line endings", 's = """\r\none\r\ntwo"""', { s: "one\ntwo" }),
+    ),
+
+    testGroup("numbers",
+        testReads("integers", "a = 0\nb = +99\nc = -17\nd = 1_000", { a: 0, b: 99, c: -17, d: 1000 }),
+        testReads("hexadecimal, octal and binary", "a = 0xDEAD_beef\nb = 0o755\nc = 0b1101", { a: 0xdeadbeef, b: 0o755, c: 13 }),
+        testReads("floats", "a = 1.5\nb = -0.01\nc = 5e+22\nd = 6.626e-34\ne = 9_224.617_5", { a: 1.5, b: -0.01, c: 5e22, d: 6.626e-34, e: 9224.6175 }),
+        testReads("infinity", "a = inf\nb = +inf\nc = -inf", { a: Infinity, b: Infinity, c: -Infinity }),
+        new Test("nan", () => {
+            assert(Number.isNaN(key(readToml("a = -nan").unwrapRight(), "a").unwrap()));
+        }),
+        testReads("booleans", "a = true\nb = false", { a: true, b: false }),
+    ),
+
+    testGroup("dates and times",
+        testReads("offset date-time", "a = 1979-05-27T07:32:00Z\nb = 1979-05-27T00:32:00.999999-07:00", { a: "1979-05-27T07:32:00Z", b: "1979-05-27T00:32:00.999999-07:00" }),
+        testReads("space separator and lower case", "a = 1979-05-27 07:32:00z\nb = 1979-05-27t07:32:00", { a: "1979-05-27T07:32:00Z", b: "1979-05-27T07:32:00" }),
+        testReads("local date and time", "a = 1979-05-27\nb = 07:32:00.5", { a: "1979-05-27", b: "07:32:00.5" }),
+        testReads("leap day", "a = 2000-02-29", { a: "2000-02-29" }),
+        testReadFails(readToml, "invalid day", "a = 2001-02-29", 1, 5, '"2001-02-29" is not a valid date or time'),
+        testReadFails(readToml, "invalid time", "a = 24:00:00", 1, 5, '"24:00:00" is not a valid date or time'),
+    ),
+
+    testGroup("arrays",
+        testReads("simple", `a = [1, "two", [3.0], {b = 4}]`, { a: [1, "two", [3], { b: 4 }] }),
+        testReads("over several lines", "a = [\n  1, # one\n  2,\n]", { a: [1, 2] }),
+        testReads("empty", "a = [ ]", { a: [] }),
+    ),
+
+    testGroup("tables",
+        testReads("headers", "[a]\nx = 1\n[b.c]\ny = 2\n[ d . 'e f' ]", { a: { x: 1 }, b: { c: { y: 2 } }, d: { "e f": {} } }),
+        testReads("implicit table defined later", "[a.b]\nx = 1\n[a]\ny = 2", { a: { b: { x: 1 }, y: 2 } }),
+        testReads("sub-table of a dotted key", "[a]\nb.c = 1\n[a.b.d]\ne = 2", { a: { b: { c: 1, d: { e: 2 } } } }),
+        testReads("inline tables", "a = { b = 1, c.d = 'x' }\ne = {}", { a: { b: 1, c: { d: "x" } }, e: {} }),
+        testReads("arrays of tables", "[[a]]\nx = 1\n[[a]]\n[[a]]\nx = 3\n[a.b]\ny = 4", { a: [{ x: 1 }, {}, { x: 3, b: { y: 4 } }] }),
+        testReads("nested arrays of tables", "[[a]]\n[[a.b]]\nx = 1\n[[a.b]]\nx = 2\n[[a]]", { a: [{ b: [{ x: 1 }, { x: 2 }] }, {}] }),
+        testReads("__proto__ is an ordinary key", "__proto__ = 1", JSON.parse('{"__proto__": 1}')),
+    ),
+
+    testGroup("invalid TOML",
+        testReadFails(readToml, "missing value", "a =\nb = 1", 1, 4, 'expected a value but saw "\\n"'),
+        testReadFails(readToml, "missing equals", "a 1", 1, 3, 'expected "=" but saw "1"'),
+        testReadFails(readToml, "more than one value on a line", "a = 1 b = 2", 1, 7, 'expected the end of the line but saw "b"'),
+        testReadFails(readToml, "duplicate key", "a = 1\na = 2", 2, 1, "a is already defined"),
+        testReadFails(readToml, "duplicate dotted key", "a.b = 1\na.b = 2", 2, 3, "a.b is already defined"),
+        testReadFails(readToml, "dotted key extending a value", "a = 1\na.b = 2", 2, 1, "a is already defined, and cannot be added to with a dotted key"),
+        testReadFails(readToml, "dotted key extending a table defined by a header", "[a.b]\n[a]\nb.c = 1", 3, 1, "b is already defined, and cannot be added to with a dotted key"),
+        testReadFails(readToml, "table defined twice", "[a]\n[b]\n[a]", 3, 1, "a is already defined"),
+        testReadFails(readToml, "header for a dotted key", "a.b = 1\n[a]", 2, 1, "a is already defined"),
+        testReadFails(readToml, "header for an inline table", "a = {}\n[a.b]", 2, 2, "a is not a table"),
+        testReadFails(readToml, "array of tables for a static array", "a = []\n[[a]]", 2, 1, "a is already defined, and is not an array of tables"),
+        testReadFails(readToml, "table header for an array of tables", "[[a]]\n[a]", 2, 1, "a is already defined"),
+        testReadFails(readToml, "inline table over several lines", "a = { b = 1,\n c = 2 }", 1, 13, 'expected a key but saw "\\n"'),
+        testReadFails(readToml, "trailing comma in inline table", "a = { b = 1, }", 1, 14, 'expected a key but saw "}"'),
+        testReadFails(readToml, "leading zero", "a = 01", 1, 5, '"01" is not a valid number'),
+        testReadFails(readToml, "misplaced underscore", "a = 1__0", 1, 5, '"1__0" is not a valid number'),
+        testReadFails(readToml, "integer too large", "a = 9223372036854775808", 1, 5, "9223372036854775808 is outside the range of a 64-bit integer"),
+        testReadFails(readToml, "unterminated string", 'a = "b\nc = 1', 1, 5, "unterminated string"),
+        testReadFails(readToml, "invalid escape", 'a = "\\x41"', 1, 6, 'invalid escape sequence "\\\\x"'),
+        testReadFails(readToml, "control character in string", 'a = "\u0001"', 1, 6, 'control characters must be escaped in strings, but saw "\\u0001"'),
+        testReadFails(readToml, "misspelt boolean", "a = tru", 1, 5, 'expected "true" but saw the end of the input'),
+        testReadFails(readToml, "unterminated array", "a = [1, 2", 1, 10, 'expected "," or "]" but saw the end of the input'),
+    ),
+
+    new Test("number text", () => {
+        const v = readToml("a = 9_223_372_036_854_775_807\nb = 0xFFFF_FFFF_FFFF_FFF\nc = +1_000.000_000_000_000_000_1\nd = inf").unwrapRight();
+        assertEquals(["a", "b", "c", "d"].map(k => key(v, k).getNumberText().maybe(undefined, t => t)),
+            ["9223372036854775807", "1152921504606846975", "1000.0000000000000001", undefined]);
+    }),
+
+    testGroup("spans",
+        testSpan(readToml, "value", "a = 1\nb = 'two'", v => key(v, "b"), [2, 5], [2, 10]),
+        testSpan(readToml, "table", "x = 1\n[a]\nb = 1", v => key(v, "a"), [2, 1], [2, 4]),
+        testSpan(readToml, "array of tables", "[[a]]\n[[a]]\nb = 1", v => index(key(v, "a"), 1), [2, 1], [2, 6]),
+    ),
+).runAsMain();
+
+class Server {
+    host: string;
+    port: number;
+    started: Date;
+
+    constructor(host: string, port: number, started: Date) {
+        this.host = host;
+        this.port = port;
+        this.started = started;
+    }
+}
+
+const serverSchemas = Schemas.emptySchemas().addSpec(Server, {
+    description: "A server",
+    load: JsonSchema.objectSchema({ host: String, port: Number, started: Date }, o => new Server(o.host, o.port, o.started)),
+});
+
+const tomlParser = new TomlParser(serverSchemas);
+
+testGroup("TomlParser",
+    new Test("parseAs", () => {
+        assertEquals(tomlParser.parseAsOrThrow(`
+[servers.alpha]
+host = "example.com"
+port = 80
+started = 2021-01-01T12:00:00Z
+
+[servers.beta]
+host = "example.org"
+port = 8080
+started = 2021-06-01
+`, [Map, String, [Map, String, Server]]), new Map([["servers", new Map([
+            ["alpha", new Server("example.com", 80, new Date(Date.UTC(2021, 0, 1, 12)))],
+            ["beta", new Server("example.org", 8080, new Date(Date.UTC(2021, 5, 1)))],
+        ])]]));
+    }),
+    new Test("errors have the same messages as JSON", () => {
+        const err = assertThrows(() => tomlParser.parseAsOrThrow('host = "a"\nport = "b"\nstarted = 2021-01-01', Server), JsonParser.JsonTypeError);
+        assertEquals(err.message, `When trying to read a value for specification: A server
+I saw: {"host":"a","port":"b","started":"2021-01-01"}
+In key: "port"
+When trying to read a value for specification: number
+I saw: "b"
+But this is a string
+At line 2, column 8:
+  1 | host = "a"
+> 2 | port = "b"
+    |        ^`);
+    }),
+    new Test("local times are not dates", () => {
+        const err = tomlParser.parseAs('t = 07:32:00', [Map, String, Date]).unwrapLeft();
+        assert(err instanceof JsonParser.JsonTypeError);
+        assertEquals(err.actualDescription, "string that is not an ISO 8601 date");
+    }),
+    new Test("syntax errors", () => {
+        const err = tomlParser.parseAs("a = [1", AnyTy).unwrapLeft();
+        assert(err instanceof JsonParser.JsonSyntaxError);
+        assertEquals([err.line, err.column], [1, 7]);
+    }),
+).runAsMain();
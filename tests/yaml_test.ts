@@ -0,0 +1,229 @@
+import {
+    AnyTy,
+    JsonParser,
+    JsonSchema,
+    Schemas,
+    YamlParser,
+} from '../mod.ts';
+
+import {
+    readYaml,
+    readYamlDocuments,
+} from '../src/yaml.ts';
+
+import {
+    JsonValue,
+} from '../src/value.ts';
+
+import {
+    assert,
+    assertEquals,
+    assertThrows,
+    index,
+    key,
+    Test,
+    testGroup,
+    testReadFails,
+    testSpan,
+} from './deps.ts';
+
+function testReads(description: string, text: string, expected: unknown): Test {
+    return new Test(description, () => {
+        assertEquals(readYaml(text).unwrapRight().unwrapFully(), expected);
+    });
+}
+
+function testReadsDocuments(description: string, text: string, expected: unknown[]): Test {
+    return new Test(description, () => {
+        assertEquals(readYamlDocuments(text).unwrapRight().map(v => v.unwrapFully()), expected);
+    });
+}
+
+testGroup("readYaml",
+    testGroup("scalars",
+        testReads("plain string", "hello world", "hello world"),
+        testReads("null", "[~, null, Null, NULL, '']", [null, null, null, null, '']),
+        testReads("booleans", "[true, True, TRUE, false, False, FALSE, yes, no]", [true, true, true, false, false, false, "yes", "no"]),
+        testReads("integers", "[0, -12, +3, 0o17, 0x1F]", [0, -12, 3, 15, 31]),
+        testReads("floats", "[1.5, -.5, 2., 1e3, -2.5E-1, .inf, -.Inf, +.INF]", [1.5, -0.5, 2, 1000, -0.25, Infinity, -Infinity, Infinity]),
+        new Test("NaN", () => {
+            assert(Number.isNaN(readYaml(".nan").unwrapRight().unwrap()));
+        }),
+        testReads("not numbers", "[1_000, 0b101, 1.2.3, 0o8, 12:30]", ["1_000", "0b101", "1.2.3", "0o8", "12:30"]),
+        testReads("single-quoted", "'it''s # not a comment'", "it's # not a comment"),
+        testReads("double-quoted escapes", '"a\\tb\\n\\"c\\" \\x41\\u00e9\\U0001F600\\\\"', 'a\tb\n"c" Aé😀\\'),
+        testReads("plain scalar over several lines", "a: one\n  two\n\n  three\n", { a: "one two\nthree" }),
+        testReads("quoted scalar over several lines", "'one\n  two\n\n  three'", "one two\nthree"),
+        testReads("escaped line break in double-quoted scalar", '"one \\\n  two"', "one two"),
+        testReads("colons and hashes in plain scalars", "url: http://example.com/#top # comment", { url: "http://example.com/#top" }),
+        testReads("plain scalars starting with indicators", "[-1, -a, :a, ?a]", [-1, "-a", ":a", "?a"]),
+    ),
+
+    testGroup("block scalars",
+        testReads("literal", "a: |\n  one\n   two\n\n  three\nb: 1", { a: "one\n two\n\nthree\n", b: 1 }),
+        testReads("folded", "a: >\n  one\n  two\n\n  three\n    more\n  four\n", { a: "one two\nthree\n  more\nfour\n" }),
+        testReads("strip", "a: |-\n  one\n\n", { a: "one" }),
+        testReads("keep", "a: |+\n  one\n\n", { a: "one\n\n" }),
+        testReads("explicit indentation", "a: |2\n    one\n  two\n", { a: "  one\ntwo\n" }),
+        testReads("with comment in header", "a: > # folded\n  one\n", { a: "one\n" }),
+        testReads("empty", "a: |\nb: 1", { a: "", b: 1 }),
+        testReads("in a sequence", "- |\n  one\n- two", ["one\n", "two"]),
+        testReads("at the top level", "--- |\none\ntwo\n", "one\ntwo\n"),
+    ),
+
+    testGroup("block collections",
+        testReads("mapping", "a: 1\nb: two\nc:\n", { a: 1, b: "two", c: null }),
+        testReads("sequence", "- 1\n- two\n-\n", [1, "two", null]),
+        testReads("nested", "a:\n  b:\n    - 1\n    - c: 2\n      d: 3\n  e: 4\nf: 5", { a: { b: [1, { c: 2, d: 3 }], e: 4 }, f: 5 }),
+        testReads("sequence at the same indentation as its key", "a:\n- 1\n- 2\nb: 3", { a: [1, 2], b: 3 }),
+        testReads("sequence of sequences", "- - 1\n  - 2\n- - 3", [[1, 2], [3]]),
+        testReads("comments and empty lines", "# start\na: 1 # one\n\n  # indented\nb: 2\n# end", { a: 1, b: 2 }),
+        testReads("keys are kept as written", "1: a\ntrue: b\n~: c\n'quoted key': d\n\"x\\ty\": e", { "1": "a", "true": "b", "~": "c", "quoted key": "d", "x\ty": "e" }),
+        testReads("indented top-level mapping", "  a: 1\n  b: 2", { a: 1, b: 2 }),
+        testReads("windows line endings", "a:\r\n  - 1\r\n  - 2\r\nb: 3\r\n", { a: [1, 2], b: 3 }),
+    ),
+
+    testGroup("flow collections",
+        testReads("sequence", "[1, two, 'three', [4]]", [1, "two", "three", [4]]),
+        testReads("mapping", "{a: 1, 'b': [2], c}", { a: 1, b: [2], c: null }),
+        testReads("JSON", '{"a": [1, 2.5, true, null, "s"], "b": {}}', { a: [1, 2.5, true, null, "s"], b: {} }),
+        testReads("JSON without spaces", '{"a":1,"b":[]}', { a: 1, b: [] }),
+        testReads("over several lines", "a: [1,\n  2, # two\n  3\n]", { a: [1, 2, 3] }),
+        testReads("trailing comma", "[1, 2, ]", [1, 2]),
+        testReads("single pairs in a sequence", "[a: 1, b]", [{ a: 1 }, "b"]),
+        testReads("plain scalars stop at indicators", "{a: b c, d: [e]}", { a: "b c", d: ["e"] }),
+    ),
+
+    testGroup("anchors and aliases",
+        testReads("scalar", "a: &x 1\nb: *x", { a: 1, b: 1 }),
+        testReads("collection", "base: &base\n  a: 1\nother: *base", { base: { a: 1 }, other: { a: 1 } }),
+        testReads("in flow collections", "[&x a, *x, {k: *x}]", ["a", "a", { k: "a" }]),
+        testReads("later anchors replace earlier ones", "- &x 1\n- *x\n- &x 2\n- *x", [1, 1, 2, 2]),
+        testReads("on the first key of a mapping", "- &k a: 1\n  b: *k", [{ a: 1, b: "a" }]),
+        testReads("as keys", "- &k a: 1\n- *k : 2", [{ a: 1 }, { a: 2 }]),
+        new Test("many aliases to small values", () => {
+            const text = "a: &a [1, 2, 3]\nb: [" + Array(20000).fill("*a").join(", ") + "]";
+            assertEquals(readYaml(text).unwrapRight().unwrapFully(), { a: [1, 2, 3], b: Array(20000).fill([1, 2, 3]) });
+        }),
+    ),
+
+    testGroup("tags",
+        testReads("!!str", "[!!str 12, !!str true, !!str, ! 1]", ["12", "true", "", "1"]),
+        testReads("!!int and !!float", "[!!int '12', !!float 1, !!float '.5']", [12, 1, 0.5]),
+        testReads("!!null and !!bool", "[!!null '', !!bool 'true']", [null, true]),
+        testReads("!!seq and !!map", "a: !!seq\n- 1\nb: !!map {c: 1}", { a: [1], b: { c: 1 } }),
+        testReads("verbatim", "!<tag:yaml.org,2002:str> 1", "1"),
+        testReads("with an anchor", "a: !!str &x 1\nb: *x", { a: "1", b: "1" }),
+    ),
+
+    testGroup("documents",
+        testReadsDocuments("no documents", "# nothing here\n", []),
+        testReadsDocuments("single implicit document", "a: 1", [{ a: 1 }]),
+        testReadsDocuments("several documents", "---\na: 1\n---\n- 2\n--- 3\n", [{ a: 1 }, [2], 3]),
+        testReadsDocuments("document end markers", "a: 1\n...\n---\nb: 2\n...\n", [{ a: 1 }, { b: 2 }]),
+        testReadsDocuments("empty documents", "---\n---\n", [null, null]),
+        testReadsDocuments("directives", "%YAML 1.2\n---\na: 1\n", [{ a: 1 }]),
+        testReads("no documents are read as null", "", null),
+        testReads("a single explicit document", "---\na: 1\n...\n", { a: 1 }),
+    ),
+
+    testGroup("invalid YAML",
+        testReadFails(readYaml, "more than one document", "a: 1\n---\nb: 2", 2, 1, "expected a single document but saw another document"),
+        testReadFails(readYaml, "bad mapping indentation", "a:\n    b: 1\n  c: 2", 3, 3, "bad indentation of a mapping entry"),
+        testReadFails(readYaml, "bad sequence indentation", "- [1]\n  - 2", 2, 3, "bad indentation of a sequence entry"),
+        testReadFails(readYaml, "mapping on the same line as its key", "a: b: c", 1, 4, "a mapping cannot start on the same line as the key it is the value of"),
+        testReadFails(readYaml, "missing colon", "a: 1\nb", 2, 2, 'expected ":" but saw the end of the input'),
+        testReadFails(readYaml, "sequence entry in a mapping", "a: 1\n- 2", 2, 1, 'expected a mapping key but saw "-"'),
+        testReadFails(readYaml, "duplicate key", "a: 1\nb: 2\na: 3", 3, 1, 'duplicate key "a"'),
+        testReadFails(readYaml, "unknown alias", "a: *x", 1, 4, 'unknown alias "x"'),
+        testReadFails(readYaml, "alias to its own anchor", "a: &x [*x]", 1, 8, 'unknown alias "x"'),
+        testReadFails(readYaml, "aliases that grow exponentially", ["a: &a [x, x, x, x, x, x, x, x, x, x]",
+            ...["b", "c", "d", "e", "f", "g", "h", "i"].map((k, i) => `${k}: &${k} [${Array(10).fill("*" + "abcdefgh"[i]).join(", ")}]`)].join("\n"),
+            5, 36, "aliases stand for more than 100000 values"),
+        testReadFails(readYaml, "unterminated string", "a: 'test\nb: 1", 1, 4, "unterminated string"),
+        testReadFails(readYaml, "unterminated flow sequence", "[1, 2", 1, 6, 'expected "," or "]" but saw the end of the input'),
+        testReadFails(readYaml, "tabs for indentation", "a:\n\tb: 1", 2, 2, "tabs cannot be used for indentation"),
+        testReadFails(readYaml, "invalid escape", '"\\q"', 1, 2, 'invalid escape sequence "\\\\q"'),
+        testReadFails(readYaml, "unsupported tag", "!foo 1", 1, 1, 'unsupported tag "!foo"'),
+        testReadFails(readYaml, "value that does not match its tag", "!!int 1.5", 1, 7, '"1.5" is not a valid !!int'),
+        testReadFails(readYaml, "explicit keys", "? a\n: 1", 1, 1, 'explicit mapping keys ("?") are not supported'),
+        testReadFails(readYaml, "collection as a key", "[a]: 1", 1, 4, 'expected the end of the line but saw ":"'),
+        testReadFails(readYaml, "content after the document", "  a: 1\nb: 2", 2, 1, 'expected the end of the document but saw "b"'),
+    ),
+
+    new Test("number text", () => {
+        const elems = readYaml('[12345678901234567890, +.5, 0x1FFFFFFFFFFFFFFF, 0o17, 007, .inf]').unwrapRight().unwrap() as JsonValue[];
+        assertEquals(elems.map(v => v.getNumberText().maybe(undefined, t => t)), ["12345678901234567890", "0.5", "2305843009213693951", "15", "7", undefined]);
+    }),
+
+    testGroup("spans",
+        testSpan(readYaml, "top-level mapping", "a: 1\nb: [2]", v => v, [1, 1], [2, 7]),
+        testSpan(readYaml, "mapping value", "a:\n  b: 'two'", v => key(key(v, "a"), "b"), [2, 6], [2, 11]),
+        testSpan(readYaml, "sequence element", "- 1\n- two words\n", v => index(v, 1), [2, 3], [2, 12]),
+        testSpan(readYaml, "alias", "a: &x 1\nb: *x", v => key(v, "b"), [2, 4], [2, 6]),
+        testSpan(readYaml, "empty value", "a:\nb: 1", v => key(v, "a"), [1, 3], [1, 3]),
+    ),
+).runAsMain();
+
+class Server {
+    host: string;
+    port: number;
+
+    constructor(host: string, port: number) {
+        this.host = host;
+        this.port = port;
+    }
+}
+
+const serverSchemas = Schemas.emptySchemas().addSpec(Server, {
+    description: "A server",
+    load: JsonSchema.objectSchema({ host: String, port: Number }, o => new Server(o.host, o.port)),
+});
+
+const yamlParser = new YamlParser(serverSchemas);
+
+testGroup("YamlParser",
+    new Test("parseAs", () => {
+        assertEquals(yamlParser.parseAsOrThrow("host: example.com\nport: 80", Server), new Server("example.com", 80));
+    }),
+    new Test("parseAs with builtin specifications", () => {
+        assertEquals(yamlParser.parseAsOrThrow("a: [1, 2]\nb:\n  - 3", [Map, String, [Set, Number]]), new Map([["a", new Set([1, 2])], ["b", new Set([3])]]));
+    }),
+    new Test("large integers through aliases", () => {
+        assertEquals(yamlParser.parseAsOrThrow("a: &n 9007199254740993\nb: *n", [Map, String, BigInt]), new Map([["a", 9007199254740993n], ["b", 9007199254740993n]]));
+    }),
+    new Test("errors have the same messages as JSON", () => {
+        const err = assertThrows(() => yamlParser.parseAsOrThrow("host: example.com\nport: eighty", Server), JsonParser.JsonTypeError);
+        assertEquals(err.message, `When trying to read a value for specification: A server
+I saw: {"host":"example.com","port":"eighty"}
+In key: "port"
+When trying to read a value for specification: number
+I saw: "eighty"
+But this is a string
+At line 2, column 7:
+  1 | host: example.com
+> 2 | port: eighty
+    |       ^`);
+    }),
+    new Test("syntax errors", () => {
+        const err = yamlParser.parseAs("a: [1", AnyTy).unwrapLeft();
+        assert(err instanceof JsonParser.JsonSyntaxError);
+        assertEquals([err.line, err.column], [1, 6]);
+    }),
+    new Test("more than one document", () => {
+        assert(yamlParser.parseAs("1\n---\n2", AnyTy).unwrapLeft() instanceof JsonParser.JsonSyntaxError);
+    }),
+    new Test("parseDocumentsAs", () => {
+        assertEquals(yamlParser.parseDocumentsAs("---\nhost: a\nport: 1\n---\nhost: b\nport: 2\n", Server).unwrapRight(), [new Server("a", 1), new Server("b", 2)]);
+    }),
+    new Test("parseDocumentsAs reports the document", () => {
+        const err = yamlParser.parseDocumentsAs("---\nhost: a\nport: 1\n---\nhost: b\n", Server).unwrapLeft();
+        assert(err instanceof JsonParser.MissingKeysError);
+        assertEquals(err.path, [1]);
+    }),
+    new Test("parseAllErrors", () => {
+        const err = yamlParser.parseAllErrors("- host: a\n- port: b", [Array, Server]).unwrapLeft();
+        assert(err instanceof JsonParser.AggregateParseError);
+        assertEquals(err.errors.length, 3);
+    }),
+).runAsMain();